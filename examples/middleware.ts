@@ -1,4 +1,5 @@
 import { createWebAdapter } from "../src/adapters/web";
+import { createPgDriver } from "../src/drivers";
 import { Pool } from "pg"; // Using PostgreSQL as an example
 
 // Database connection
@@ -14,16 +15,14 @@ const pool = new Pool({
 const adapter = createWebAdapter({
   dialect: "postgres",
   schema: "public",
+  driver: createPgDriver(pool),
 });
 
 // Middleware for automatic CRUD operations
 export async function restqlMiddleware(req: Request): Promise<Response> {
   try {
-    // Convert request to SQL
-    const { sql, params } = await adapter.toSQL(req);
-
-    // Execute query
-    const result = await pool.query(sql, params);
+    // Convert request to SQL and execute it with the configured driver
+    const result = await adapter.execute(req);
 
     // Format response based on operation
     const method = req.method;
@@ -34,9 +33,11 @@ export async function restqlMiddleware(req: Request): Promise<Response> {
         response = result.rows;
         break;
       case "POST":
+        // Rows are only returned when the client asks for them with
+        // `returning` in the query, e.g. { returning: ["id"] }
         response = {
           message: "Created successfully",
-          data: result.rows[0],
+          data: result.rows,
         };
         break;
       case "PUT":
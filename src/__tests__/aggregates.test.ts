@@ -0,0 +1,128 @@
+import { createRestQL, defaultValidationOptions } from "..";
+import { createWebAdapter } from "../adapters/web";
+import { QueryBuilder } from "../sdk/query-builder";
+import { ValidationError } from "../validation";
+import { SchemaError } from "../schema";
+
+describe("Aggregates and aliases", () => {
+  const postgres = createRestQL({
+    dialect: "postgres",
+    validation: defaultValidationOptions,
+  });
+  const mysql = createRestQL({
+    dialect: "mysql",
+    validation: defaultValidationOptions,
+  });
+
+  it("should render aggregates with aliases", () => {
+    const result = postgres.toSQL({
+      method: "GET",
+      path: "/orders",
+      query: {
+        select: [
+          "user_id",
+          { fn: "count", field: "*", as: "order_count" },
+          { fn: "sum", field: "amount", as: "total" },
+          { fn: "avg", field: "orders.price" },
+        ],
+        groupBy: ["user_id"],
+      },
+    });
+    expect(result.sql).toBe(
+      'SELECT "user_id", COUNT(*) AS "order_count", SUM("amount") AS "total", AVG("orders"."price") FROM "orders" GROUP BY "user_id"'
+    );
+  });
+
+  it("should render plain aliased columns", () => {
+    const result = mysql.toSQL({
+      method: "GET",
+      path: "/users",
+      query: { select: [{ field: "created_at", as: "createdAt" }] },
+    });
+    expect(result.sql).toBe("SELECT `created_at` AS `createdAt` FROM `users`");
+  });
+
+  it("should resolve aggregate aliases in HAVING", () => {
+    const result = postgres.toSQL({
+      method: "GET",
+      path: "/orders",
+      query: {
+        select: ["user_id", { fn: "sum", field: "amount", as: "total" }],
+        where: { field: "status", operator: "=", value: "paid" },
+        groupBy: ["user_id"],
+        having: [{ field: "total", operator: ">", value: 100 }],
+        orderBy: [{ field: "total", direction: "DESC" }],
+      },
+    });
+    expect(result.sql).toBe(
+      'SELECT "user_id", SUM("amount") AS "total" FROM "orders" WHERE "status" = $1 GROUP BY "user_id" HAVING SUM("amount") > $2 ORDER BY "total" DESC'
+    );
+    expect(result.params).toEqual(["paid", 100]);
+  });
+
+  it("should reject unsupported aggregates and aliases", () => {
+    const select = (item: any) => () =>
+      postgres.toSQL({
+        method: "GET",
+        path: "/orders",
+        query: { select: [item] },
+      });
+
+    expect(select({ fn: "pg_sleep", field: "amount" })).toThrow(
+      ValidationError
+    );
+    expect(select({ fn: "sum", field: "*" })).toThrow(
+      'Only "count" can be applied to "*"'
+    );
+    expect(select({ fn: "sum", field: "amount", as: 'x"; DROP' })).toThrow(
+      ValidationError
+    );
+    expect(select({ fn: "sum", field: "amount); DROP TABLE x; --" })).toThrow(
+      ValidationError
+    );
+  });
+
+  it("should accept select expressions through the adapters", async () => {
+    const adapter = createWebAdapter({ dialect: "sqlite" });
+    const url = new URL("http://test.com/orders");
+    url.searchParams.set(
+      "q",
+      new QueryBuilder()
+        .selectFields(["status", { fn: "max", field: "amount", as: "largest" }])
+        .groupBy(["status"])
+        .having("largest", ">=", 10)
+        .build()
+    );
+
+    const result = await adapter.toSQL(new Request(url));
+    expect(result.sql).toBe(
+      'SELECT "status", MAX("amount") AS "largest" FROM "orders" GROUP BY "status" HAVING MAX("amount") >= ?'
+    );
+    expect(result.params).toEqual([10]);
+  });
+
+  it("should allow aliases in having and orderBy with a schema", () => {
+    const restql = createRestQL({
+      dialect: "postgres",
+      schema: {
+        tables: { orders: { columns: { id: "int", amount: "float" } } },
+      },
+    });
+    const query = {
+      select: [{ fn: "count", field: "*", as: "n" }],
+      having: [{ field: "n", operator: ">", value: 1 }],
+      orderBy: [{ field: "n", direction: "ASC" }],
+    };
+
+    expect(() =>
+      restql.toSQL({ method: "GET", path: "/orders", query })
+    ).not.toThrow();
+    expect(() =>
+      restql.toSQL({
+        method: "GET",
+        path: "/orders",
+        query: { select: [{ fn: "sum", field: "tax" }] },
+      })
+    ).toThrow(SchemaError);
+  });
+});
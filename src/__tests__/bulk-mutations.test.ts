@@ -0,0 +1,172 @@
+import Fastify from "fastify";
+import Database = require("better-sqlite3");
+import { createRestQL, ValidationError } from "..";
+import { createFastifyAdapter } from "../adapters/fastify";
+import { createSqliteDriver } from "../drivers";
+import { encodeQuery } from "../formats";
+
+describe("Filtered bulk mutations", () => {
+  const restql = createRestQL({ dialect: "postgres" });
+
+  it("should update and delete the rows matching where", () => {
+    expect(
+      restql.toSQL({
+        method: "PATCH",
+        path: "/users",
+        body: { status: "inactive" },
+        query: {
+          where: { field: "last_login", operator: "<", value: "2024-01-01" },
+        },
+      })
+    ).toEqual({
+      sql: 'UPDATE "users" SET "status" = $1 WHERE "last_login" < $2',
+      params: ["inactive", "2024-01-01"],
+    });
+    expect(
+      restql.toSQL({
+        method: "DELETE",
+        path: "/users",
+        query: {
+          where: [
+            { field: "status", operator: "=", value: "inactive" },
+            { field: "email", operator: "IS NULL" },
+          ],
+        },
+      })
+    ).toEqual({
+      sql: 'DELETE FROM "users" WHERE "status" = $1 AND "email" IS NULL',
+      params: ["inactive"],
+    });
+    expect(
+      restql.toSQL({
+        method: "DELETE",
+        path: "/users",
+        body: [{ id: 1 }, { id: 2 }],
+        query: { where: { field: "status", operator: "=", value: "inactive" } },
+      })
+    ).toEqual({
+      sql: 'DELETE FROM "users" WHERE "status" = $1 AND "id" = ANY($2)',
+      params: ["inactive", [1, 2]],
+    });
+  });
+
+  it("should match single-row bulk updates on their key", () => {
+    expect(
+      restql.toSQL({
+        method: "PUT",
+        path: "/users",
+        body: [{ id: 3, name: "Ann" }],
+      })
+    ).toEqual({
+      sql: 'UPDATE "users" SET "name" = $1 WHERE "id" = $2',
+      params: ["Ann", 3],
+    });
+    expect(() =>
+      restql.toSQL({
+        method: "PATCH",
+        path: "/users",
+        body: [{ id: 3, name: "Ann" }, { name: "Bob" }],
+      })
+    ).toThrow(
+      new ValidationError(
+        'Bulk requests must include the key column "id" in every row',
+        { code: "INVALID_KEY", path: "values[1].id" }
+      )
+    );
+  });
+
+  it("should refuse unfiltered updates and deletes unless the table allows them", () => {
+    const unfiltered = new ValidationError(
+      'Updating every row of table "users" is not allowed, narrow the rows with where',
+      { code: "MISSING_FILTER" }
+    );
+    expect(() =>
+      restql.toSQL({
+        method: "PATCH",
+        path: "/users",
+        body: { status: "inactive" },
+      })
+    ).toThrow(unfiltered);
+    expect(() =>
+      restql.toSQL({ method: "PUT", path: "/users", body: { name: "Ann" } })
+    ).toThrow(unfiltered);
+    expect(() => restql.toSQL({ method: "DELETE", path: "/users" })).toThrow(
+      'Deleting every row of table "users" is not allowed'
+    );
+
+    const allowed = createRestQL({
+      dialect: "postgres",
+      mutations: { allowUnfiltered: ["sessions"] },
+    });
+    expect(allowed.toSQL({ method: "DELETE", path: "/sessions" }).sql).toBe(
+      'DELETE FROM "sessions"'
+    );
+    expect(() => allowed.toSQL({ method: "DELETE", path: "/users" })).toThrow(
+      ValidationError
+    );
+  });
+
+  it("should treat a parent route as a filter", () => {
+    const nested = createRestQL({
+      dialect: "postgres",
+      schema: {
+        tables: {
+          users: { columns: { id: "int" } },
+          orders: {
+            columns: { id: "int", user_id: "int", status: "string" },
+            foreignKeys: [{ columns: "user_id", references: "users" }],
+          },
+        },
+      },
+    });
+    expect(
+      nested.toSQL({
+        method: "PATCH",
+        path: "/users/42/orders",
+        body: { status: "cancelled" },
+      })
+    ).toEqual({
+      sql: 'UPDATE "orders" SET "status" = $1 WHERE "user_id" = $2',
+      params: ["cancelled", "42"],
+    });
+  });
+
+  it("should delete filtered rows through the adapters", async () => {
+    const db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, status TEXT);
+      INSERT INTO users (name, status) VALUES ('Ann', 'active'), ('Bob', 'inactive'), ('Cy', 'inactive');
+    `);
+    const app = Fastify();
+    await app.register(
+      createFastifyAdapter({
+        dialect: "sqlite",
+        driver: createSqliteDriver(db),
+      }).plugin()
+    );
+
+    const deleted = await app.inject({
+      method: "DELETE",
+      url: "/users",
+      query: {
+        q: encodeQuery({
+          where: { field: "status", operator: "=", value: "inactive" },
+        }),
+      },
+    });
+    expect(deleted.statusCode).toBe(204);
+    expect(db.prepare("SELECT name FROM users").all()).toEqual([
+      { name: "Ann" },
+    ]);
+
+    const refused = await app.inject({ method: "DELETE", url: "/users" });
+    expect(refused.statusCode).toBe(400);
+    expect(refused.json()).toMatchObject({ code: "MISSING_FILTER" });
+    expect(db.prepare("SELECT COUNT(*) AS n FROM users").get()).toEqual({
+      n: 1,
+    });
+
+    await app.close();
+    db.close();
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  createRestQL,
+  QueryCostError,
+  SchemaConfig,
+  toProblemDetails,
+} from "..";
+import { RestQLRequest } from "../types";
+
+describe("Query cost", () => {
+  const schema: SchemaConfig = {
+    tables: {
+      users: {
+        columns: { id: "int", name: "string", email: "string", bio: "string" },
+        indexes: ["email", ["name", "id"]],
+      },
+      orders: {
+        columns: { id: "int", user_id: "int", total: "float" },
+        indexes: ["user_id"],
+      },
+    },
+  };
+
+  function rejection(
+    restql: ReturnType<typeof createRestQL>,
+    request: RestQLRequest
+  ) {
+    try {
+      restql.toSQL(request);
+    } catch (error) {
+      return error as QueryCostError;
+    }
+    throw new Error("Expected the request to be rejected");
+  }
+
+  it("should score joins, unbounded reads, wildcards, REGEXP and unindexed filters", () => {
+    const restql = createRestQL({
+      dialect: "postgres",
+      schema,
+      cost: { budget: 50 },
+    });
+    const error = rejection(restql, {
+      method: "GET",
+      path: "/users",
+      query: {
+        select: ["users.name"],
+        joins: [
+          {
+            type: "INNER",
+            table: "orders",
+            alias: "o",
+            on: [{ field: "o.user_id", operator: "=", value: "users.id" }],
+          },
+        ],
+        where: [
+          { field: "users.bio", operator: "LIKE", value: "%x%" },
+          { field: "users.name", operator: "REGEXP", value: "^J" },
+          { field: "o.total", operator: ">", value: 10 },
+        ],
+      },
+    });
+
+    expect(error).toBeInstanceOf(QueryCostError);
+    expect(error.estimate).toEqual({
+      cost: 71,
+      factors: {
+        base: 1,
+        join: 10,
+        unboundedRead: 20,
+        leadingWildcard: 15,
+        regexp: 15,
+        unindexedFilter: 10,
+      },
+    });
+    expect(error.message).toBe(
+      "Query cost 71 exceeds the budget of 50 (base 1, join 10, unboundedRead 20, leadingWildcard 15, regexp 15, unindexedFilter 10)"
+    );
+    expect(toProblemDetails(error)).toMatchObject({
+      status: 400,
+      code: "QUERY_TOO_COSTLY",
+      cost: 71,
+      budget: 50,
+    });
+  });
+
+  it("should let cheap queries through unchanged", () => {
+    const restql = createRestQL({
+      dialect: "postgres",
+      schema,
+      cost: { budget: 10 },
+    });
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        query: {
+          select: ["id"],
+          where: [
+            { field: "email", operator: "LIKE", value: "ann%" },
+            { field: "name", operator: "=", value: "Ann" },
+          ],
+          limit: 10,
+        },
+      }).sql
+    ).toBe(
+      'SELECT "id" FROM "users" WHERE "email" LIKE $1 ESCAPE \'\\\' AND "name" = $2 LIMIT 10'
+    );
+    expect(
+      restql.toSQL({ method: "GET", path: "/users/1", query: {} }).sql
+    ).toBe(
+      'SELECT "id", "name", "email", "bio" FROM "users" WHERE "id" = $1 LIMIT 1'
+    );
+  });
+
+  it("should clamp unbounded reads when configured", () => {
+    const restql = createRestQL({
+      dialect: "postgres",
+      cost: { budget: 15, onExceed: "clamp", clampLimit: 50 },
+    });
+    expect(restql.toSQL({ method: "GET", path: "/users" }).sql).toBe(
+      'SELECT * FROM "users" LIMIT 50'
+    );
+
+    const error = rejection(restql, {
+      method: "GET",
+      path: "/users",
+      query: { where: { field: "name", operator: "REGEXP", value: "^J" } },
+    });
+    expect(error.cost).toBe(16);
+    expect(error.budget).toBe(15);
+    expect(error.estimate.factors).not.toHaveProperty("unboundedRead");
+  });
+
+  it("should use custom weights", () => {
+    const restql = createRestQL({
+      dialect: "postgres",
+      cost: { budget: 5, weights: { unboundedRead: 0, join: 5 } },
+    });
+    expect(restql.toSQL({ method: "GET", path: "/users" }).sql).toBe(
+      'SELECT * FROM "users"'
+    );
+    expect(
+      rejection(restql, {
+        method: "GET",
+        path: "/users",
+        query: {
+          joins: [
+            {
+              type: "LEFT",
+              table: "orders",
+              on: [
+                { field: "orders.user_id", operator: "=", value: "users.id" },
+              ],
+            },
+          ],
+        },
+      }).estimate
+    ).toEqual({ cost: 6, factors: { base: 1, join: 5 } });
+  });
+});
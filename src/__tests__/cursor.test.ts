@@ -0,0 +1,178 @@
+import { createRestQL, defaultValidationOptions } from "..";
+import { createWebAdapter } from "../adapters/web";
+import { decodeCursor, encodeCursor } from "../cursor";
+import { QueryBuilder } from "../sdk/query-builder";
+import { ValidationError } from "../validation";
+import { QueryValidationError } from "../queryValidator";
+
+describe("Keyset pagination", () => {
+  const postgres = createRestQL({
+    dialect: "postgres",
+    validation: defaultValidationOptions,
+  });
+  const mysql = createRestQL({
+    dialect: "mysql",
+    validation: defaultValidationOptions,
+  });
+
+  const orderBy = [
+    { field: "created_at", direction: "DESC" },
+    { field: "id", direction: "DESC" },
+  ];
+  const cursor = encodeCursor({ created_at: 1704067200, id: 42 }, [
+    { field: "created_at", direction: "DESC" },
+    { field: "id", direction: "DESC" },
+  ]);
+
+  it("should round trip cursor values", () => {
+    const date = new Date("2024-01-01T00:00:00.000Z");
+    const encoded = encodeCursor({ id: 1, created_at: date }, [
+      { field: "users.created_at", direction: "ASC" },
+      { field: "id", direction: "ASC" },
+    ]);
+    expect(decodeCursor(encoded)).toEqual(["2024-01-01T00:00:00.000Z", 1]);
+    expect(() => decodeCursor("not a cursor")).toThrow("Invalid cursor");
+  });
+
+  it("should page forward with a row-value comparison", () => {
+    const result = postgres.toSQL({
+      method: "GET",
+      path: "/posts",
+      query: {
+        where: { field: "status", operator: "=", value: "published" },
+        orderBy,
+        limit: 20,
+        after: cursor,
+      },
+    });
+    expect(result.sql).toBe(
+      'SELECT * FROM "posts" WHERE "status" = $1 AND ("created_at", "id") < ($2, $3) ORDER BY "created_at" DESC, "id" DESC LIMIT 20'
+    );
+    expect(result.params).toEqual(["published", 1704067200, 42]);
+    expect(result.meta).toBeUndefined();
+  });
+
+  it("should use a simple comparison for a single field", () => {
+    const result = mysql.toSQL({
+      method: "GET",
+      path: "/posts",
+      query: {
+        orderBy: [{ field: "id", direction: "ASC" }],
+        limit: 10,
+        after: encodeCursor({ id: 5 }, [{ field: "id", direction: "ASC" }]),
+      },
+    });
+    expect(result.sql).toBe(
+      "SELECT * FROM `posts` WHERE `id` > ? ORDER BY `id` ASC LIMIT 10"
+    );
+    expect(result.params).toEqual([5]);
+  });
+
+  it("should expand mixed directions", () => {
+    const result = postgres.toSQL({
+      method: "GET",
+      path: "/posts",
+      query: {
+        orderBy: [
+          { field: "score", direction: "DESC" },
+          { field: "id", direction: "ASC" },
+        ],
+        after: encodeCursor({ score: 9, id: 3 }, [
+          { field: "score", direction: "DESC" },
+          { field: "id", direction: "ASC" },
+        ]),
+      },
+    });
+    expect(result.sql).toBe(
+      'SELECT * FROM "posts" WHERE (("score" < $1) OR ("score" = $2 AND "id" > $3)) ORDER BY "score" DESC, "id" ASC'
+    );
+    expect(result.params).toEqual([9, 9, 3]);
+  });
+
+  it("should reverse the ordering when paging backwards", () => {
+    const result = postgres.toSQL({
+      method: "GET",
+      path: "/posts",
+      query: { orderBy, limit: 20, before: cursor },
+    });
+    expect(result.sql).toBe(
+      'SELECT * FROM "posts" WHERE ("created_at", "id") > ($1, $2) ORDER BY "created_at" ASC, "id" ASC LIMIT 20'
+    );
+    expect(result.meta).toEqual({ reversed: true });
+  });
+
+  it("should reject invalid cursor queries", () => {
+    const list = (query: any) => () =>
+      postgres.toSQL({ method: "GET", path: "/posts", query });
+
+    expect(list({ after: cursor })).toThrow(
+      "Cursor pagination requires orderBy"
+    );
+    expect(list({ orderBy, after: cursor, before: cursor })).toThrow(
+      ValidationError
+    );
+    expect(list({ orderBy, after: cursor, offset: 20 })).toThrow(
+      "Cursor pagination cannot be combined with offset"
+    );
+    expect(
+      list({ orderBy: [{ field: "id", direction: "ASC" }], after: cursor })
+    ).toThrow("Cursor must hold 1 values, one per orderBy field");
+    expect(list({ orderBy, after: "%%%" })).toThrow("Invalid cursor");
+
+    // Cursor values are bound like any other, legacy validation still
+    // screens them
+    const legacy = createRestQL({
+      dialect: "postgres",
+      validation: { ...defaultValidationOptions, valueValidation: "legacy" },
+    });
+    const query = {
+      orderBy: [{ field: "id", direction: "ASC" }],
+      after: encodeCursor({ id: "1; DROP TABLE posts" }, [
+        { field: "id", direction: "ASC" },
+      ]),
+    };
+    expect(list(query)).not.toThrow();
+    expect(() =>
+      legacy.toSQL({ method: "GET", path: "/posts", query })
+    ).toThrow(ValidationError);
+  });
+
+  it("should reject non-string cursors in the adapters", async () => {
+    const adapter = createWebAdapter({ dialect: "postgres" });
+    const url = new URL("http://test.com/posts");
+    url.searchParams.set(
+      "q",
+      Buffer.from(JSON.stringify({ orderBy, after: 42 })).toString("base64")
+    );
+    await expect(adapter.toSQL(new Request(url))).rejects.toThrow(
+      QueryValidationError
+    );
+  });
+
+  it("should build cursors from result rows with the SDK", async () => {
+    const rows = [
+      { id: 3, created_at: "2024-01-03" },
+      { id: 2, created_at: "2024-01-02" },
+    ];
+    const builder = new QueryBuilder()
+      .orderBy("created_at", "DESC")
+      .orderBy("id", "DESC")
+      .limit(2);
+    const next = builder.nextCursor(rows) as string;
+    expect(decodeCursor(next)).toEqual(["2024-01-02", 2]);
+    expect(decodeCursor(builder.previousCursor(rows) as string)).toEqual([
+      "2024-01-03",
+      3,
+    ]);
+    expect(builder.nextCursor([])).toBeUndefined();
+
+    const adapter = createWebAdapter({ dialect: "sqlite" });
+    const url = new URL("http://test.com/posts");
+    url.searchParams.set("q", builder.after(next).build());
+    const result = await adapter.toSQL(new Request(url));
+    expect(result.sql).toBe(
+      'SELECT * FROM "posts" WHERE ("created_at", "id") < (?, ?) ORDER BY "created_at" DESC, "id" DESC LIMIT 2'
+    );
+    expect(result.params).toEqual(["2024-01-02", 2]);
+  });
+});
@@ -0,0 +1,296 @@
+import Fastify from "fastify";
+import Database = require("better-sqlite3");
+import { createRestQL, ForbiddenError, SchemaConfig, SchemaError } from "..";
+import { createFastifyAdapter } from "../adapters/fastify";
+import { createSqliteDriver } from "../drivers";
+import { encodeQuery } from "../formats";
+
+describe("Resource embedding", () => {
+  const schema: SchemaConfig = {
+    tables: {
+      users: { columns: { id: "int", name: "string" } },
+      orders: {
+        columns: { id: "int", user_id: "int", total: "float" },
+        foreignKeys: [{ columns: "user_id", references: "users" }],
+      },
+      items: {
+        columns: { id: "int", order_id: "int", sku: "string" },
+        foreignKeys: [{ columns: "order_id", references: "orders" }],
+      },
+      tags: { columns: { id: "int", label: "string" } },
+    },
+  };
+  const restql = createRestQL({ dialect: "postgres", schema });
+
+  it("should embed referencing rows as an array", () => {
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        query: {
+          select: ["id", "name", { orders: ["id", "total"] }],
+          where: { field: "name", operator: "=", value: "Ann" },
+        },
+      })
+    ).toEqual({
+      sql:
+        'SELECT "id", "name", (SELECT COALESCE(json_agg(json_build_object(\'id\', "orders_1"."id", \'total\', "orders_1"."total")), \'[]\') ' +
+        'FROM "orders" AS "orders_1" WHERE "orders_1"."user_id" = "users"."id") AS "orders" ' +
+        'FROM "users" WHERE "name" = $1',
+      params: ["Ann"],
+      meta: { embeds: ["orders"] },
+    });
+  });
+
+  it("should embed the referenced row as an object and nest embeds", () => {
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/orders/7",
+        query: {
+          select: [
+            "id",
+            { users: [{ field: "name", as: "customer" }] },
+            { items: ["*"] },
+          ],
+        },
+      }).sql
+    ).toBe(
+      'SELECT "id", ' +
+        '(SELECT json_build_object(\'customer\', "users_1"."name") ' +
+        'FROM "users" AS "users_1" WHERE "users_1"."id" = "orders"."user_id") AS "users", ' +
+        '(SELECT COALESCE(json_agg(json_build_object(\'id\', "items_1"."id", \'order_id\', "items_1"."order_id", \'sku\', "items_1"."sku")), \'[]\') ' +
+        'FROM "items" AS "items_1" WHERE "items_1"."order_id" = "orders"."id") AS "items" ' +
+        'FROM "orders" WHERE "id" = $1 LIMIT 1'
+    );
+
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        query: { select: [{ orders: ["id", { items: ["sku"] }] }] },
+      }).sql
+    ).toBe(
+      "SELECT (SELECT COALESCE(json_agg(json_build_object('id', \"orders_1\".\"id\", 'items', " +
+        "(SELECT COALESCE(json_agg(json_build_object('sku', \"items_2\".\"sku\")), '[]') " +
+        'FROM "items" AS "items_2" WHERE "items_2"."order_id" = "orders_1"."id"))), \'[]\') ' +
+        'FROM "orders" AS "orders_1" WHERE "orders_1"."user_id" = "users"."id") AS "orders" FROM "users"'
+    );
+  });
+
+  it("should use the JSON functions of each dialect", () => {
+    const query = { select: ["id", { orders: ["total"] }] };
+    const sqlFor = (dialect: "mysql" | "sqlite" | "mssql") =>
+      createRestQL({ dialect, schema }).toSQL({
+        method: "GET",
+        path: "/users",
+        query,
+      }).sql;
+
+    expect(sqlFor("mysql")).toBe(
+      "SELECT `id`, (SELECT COALESCE(JSON_ARRAYAGG(JSON_OBJECT('total', `orders_1`.`total`)), JSON_ARRAY()) " +
+        "FROM `orders` AS `orders_1` WHERE `orders_1`.`user_id` = `users`.`id`) AS `orders` FROM `users`"
+    );
+    expect(sqlFor("sqlite")).toBe(
+      'SELECT "id", (SELECT json_group_array(json_object(\'total\', "orders_1"."total")) ' +
+        'FROM "orders" AS "orders_1" WHERE "orders_1"."user_id" = "users"."id") AS "orders" FROM "users"'
+    );
+    expect(sqlFor("mssql")).toBe(
+      "SELECT [id], COALESCE((SELECT [orders_1].[total] AS [total] FROM [orders] AS [orders_1] " +
+        "WHERE [orders_1].[user_id] = [users].[id] FOR JSON PATH, INCLUDE_NULL_VALUES), '[]') AS [orders] FROM [users]"
+    );
+  });
+
+  it("should escape quotes in embedded keys", () => {
+    const quoted: SchemaConfig = {
+      tables: {
+        users: { columns: { id: "int" } },
+        notes: {
+          columns: { user_id: "int", "it's\\": "string" },
+          foreignKeys: [{ columns: "user_id", references: "users" }],
+        },
+      },
+    };
+    const sqlFor = (dialect: "postgres" | "mysql") =>
+      createRestQL({ dialect, schema: quoted }).toSQL({
+        method: "GET",
+        path: "/users",
+        query: { select: ["id", { notes: ["it's\\"] }] },
+      }).sql;
+
+    expect(sqlFor("postgres")).toContain(
+      "json_build_object('it''s\\', \"notes_1\".\"it's\\\")"
+    );
+    expect(sqlFor("mysql")).toContain(
+      "JSON_OBJECT('it''s\\\\', `notes_1`.`it's\\`)"
+    );
+    expect(() =>
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        query: { select: [{ orders: [{ field: "id", as: "a', 'b" }] }] },
+      })
+    ).toThrow(
+      "Invalid alias \"a', 'b\". Must start with a letter and contain only alphanumeric characters and underscores"
+    );
+  });
+
+  it("should reject embeds without a declared relationship", () => {
+    expect(() =>
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        query: { select: ["id", { tags: ["label"] }] },
+      })
+    ).toThrow(
+      new SchemaError('No foreign key between "tags" and "users"', {
+        code: "UNKNOWN_TABLE",
+      })
+    );
+    expect(() =>
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        query: { select: [{ orders: ["discount"] }] },
+      })
+    ).toThrow('Unknown column "discount" on table "orders"');
+    expect(() =>
+      createRestQL({ dialect: "postgres" }).toSQL({
+        method: "GET",
+        path: "/users",
+        query: { select: [{ orders: ["id"] }] },
+      })
+    ).toThrow(
+      'Embedding "orders" requires a schema declaring its foreign keys'
+    );
+    expect(() =>
+      createRestQL({ dialect: "postgres", schema, validation: {} }).toSQL({
+        method: "GET",
+        path: "/users",
+        query: { select: [{ orders: [{ fn: "sum", field: "total" }] }] },
+      })
+    ).toThrow("Aggregates can't be used in an embedded select");
+  });
+
+  it("should check permissions and policies of embedded tables", () => {
+    const secured = createRestQL({
+      dialect: "postgres",
+      schema,
+      permissions: {
+        tables: {
+          users: { member: { operations: ["READ"] } },
+          orders: {
+            member: { operations: ["READ"], readable: ["id", "total"] },
+          },
+        },
+      },
+      policies: {
+        orders: ({ principal }) => ({
+          field: "user_id",
+          operator: "=",
+          value: principal?.id,
+        }),
+      },
+    });
+    const principal = { id: 3, role: "member" };
+
+    expect(
+      secured.toSQL({
+        method: "GET",
+        path: "/users",
+        query: {
+          select: ["id", { orders: ["total"] }],
+          where: { field: "id", operator: ">", value: 1 },
+        },
+        principal,
+      })
+    ).toMatchObject({
+      sql: expect.stringContaining(
+        'WHERE "orders_1"."user_id" = "users"."id" AND "user_id" = $1) AS "orders" FROM "users" WHERE "id" > $2'
+      ),
+      params: [3, 1],
+    });
+    expect(() =>
+      secured.toSQL({
+        method: "GET",
+        path: "/users",
+        query: { select: [{ orders: ["user_id"] }] },
+        principal,
+      })
+    ).toThrow('Column "orders.user_id" is not readable for role "member"');
+    expect(() =>
+      secured.toSQL({
+        method: "GET",
+        path: "/orders",
+        query: { select: [{ items: ["sku"] }] },
+        principal,
+      })
+    ).toThrow(ForbiddenError);
+  });
+
+  it("should count embedded tables as joins in the cost budget", () => {
+    const budgeted = createRestQL({
+      dialect: "postgres",
+      schema,
+      cost: { budget: 15 },
+    });
+    expect(() =>
+      budgeted.toSQL({
+        method: "GET",
+        path: "/users",
+        query: { select: ["id", { orders: ["id", { items: ["sku"] }] }] },
+      })
+    ).toThrow("Query cost 41 exceeds the budget of 15");
+  });
+
+  it("should return nested JSON through the adapters", async () => {
+    const db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+      CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, total REAL);
+      CREATE TABLE items (id INTEGER PRIMARY KEY, order_id INTEGER, sku TEXT);
+      INSERT INTO users (name) VALUES ('Ann'), ('Bob');
+      INSERT INTO orders (user_id, total) VALUES (1, 10.5), (1, 20);
+      INSERT INTO items (order_id, sku) VALUES (1, 'A-1'), (1, 'B-2');
+    `);
+    const app = Fastify();
+    await app.register(
+      createFastifyAdapter({
+        dialect: "sqlite",
+        driver: createSqliteDriver(db),
+        schema,
+      }).plugin()
+    );
+    const get = async (url: string, query: object) =>
+      (
+        await app.inject({
+          method: "GET",
+          url,
+          query: { q: encodeQuery(query) },
+        })
+      ).json();
+
+    expect(
+      await get("/users", {
+        select: ["name", { orders: ["total", { items: ["sku"] }] }],
+      })
+    ).toEqual({
+      data: [
+        {
+          name: "Ann",
+          orders: [
+            { total: 10.5, items: [{ sku: "A-1" }, { sku: "B-2" }] },
+            { total: 20, items: [] },
+          ],
+        },
+        { name: "Bob", orders: [] },
+      ],
+    });
+    expect(
+      await get("/orders/2", { select: ["id", { users: ["name"] }] })
+    ).toEqual({ data: { id: 2, users: { name: "Ann" } } });
+
+    await app.close();
+    db.close();
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  createRestQL,
+  defaultValidationOptions,
+  MethodNotAllowedError,
+  RestQLError,
+  toProblemDetails,
+  ValidationError,
+} from "..";
+import { QueryValidationError } from "../queryValidator";
+import { SchemaError } from "../schema";
+import { RestQLRequest } from "../types";
+
+describe("Error model", () => {
+  const restql = createRestQL({
+    dialect: "postgres",
+    validation: defaultValidationOptions,
+    schema: {
+      tables: {
+        users: { columns: { id: "int", name: "string" } },
+        memberships: {
+          columns: { user_id: "int", group_id: "int" },
+          primaryKey: ["user_id", "group_id"],
+        },
+      },
+    },
+  });
+
+  function get(path: string, query: any = {}): RestQLRequest {
+    return { method: "GET", path, query };
+  }
+
+  async function rejection(request: RestQLRequest): Promise<RestQLError> {
+    try {
+      await restql.toSQL(request);
+    } catch (error) {
+      return error as RestQLError;
+    }
+    throw new Error("Expected the request to be rejected");
+  }
+
+  it("should point at the offending where condition", async () => {
+    const error = await rejection(
+      get("/users", {
+        where: {
+          operator: "AND",
+          conditions: [
+            { field: "id", operator: "=", value: 1 },
+            { field: "name", operator: "SOUNDS LIKE", value: 2 },
+          ],
+        },
+      })
+    );
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.code).toBe("OPERATOR_NOT_ALLOWED");
+    expect(error.status).toBe(400);
+    expect(error.path).toBe("where.conditions[1].operator");
+  });
+
+  it("should point at the offending select expression", async () => {
+    const error = await rejection(
+      get("/users", { select: ["id", { fn: "median", field: "id" }] })
+    );
+    expect(error.code).toBe("OPERATOR_NOT_ALLOWED");
+    expect(error.path).toBe("select[1].fn");
+  });
+
+  it("should report unknown tables and columns against the schema", async () => {
+    const table = await rejection(get("/accounts"));
+    expect(table).toBeInstanceOf(SchemaError);
+    expect(table.code).toBe("UNKNOWN_TABLE");
+    expect(table.status).toBe(404);
+
+    const column = await rejection(
+      get("/users", {
+        where: { field: "email", operator: "=", value: 1 },
+      })
+    );
+    expect(column.code).toBe("UNKNOWN_COLUMN");
+    expect(column.status).toBe(400);
+    expect(column.path).toBe("where.field");
+  });
+
+  it("should report keys and methods", async () => {
+    const key = await rejection(get("/memberships/1"));
+    expect(key.code).toBe("INVALID_KEY");
+
+    const method = await rejection({
+      method: "OPTIONS" as any,
+      path: "/users",
+    });
+    expect(method).toBeInstanceOf(MethodNotAllowedError);
+    expect(method.status).toBe(405);
+  });
+
+  it("should keep the structural validation error in the hierarchy", () => {
+    const error = new QueryValidationError("Invalid limit", { path: "limit" });
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toBeInstanceOf(RestQLError);
+    expect(error.name).toBe("QueryValidationError");
+    expect(error.toProblem()).toEqual({
+      type: "about:blank",
+      title: "Bad Request",
+      status: 400,
+      detail: "Invalid limit",
+      code: "INVALID_QUERY",
+      path: "limit",
+    });
+  });
+
+  it("should hide the details of unexpected errors", () => {
+    expect(
+      toProblemDetails(new Error('relation "secret" does not exist'))
+    ).toEqual({
+      type: "about:blank",
+      title: "Internal Server Error",
+      status: 500,
+      detail: "Internal server error",
+      code: "INTERNAL_ERROR",
+    });
+  });
+});
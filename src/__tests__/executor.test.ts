@@ -0,0 +1,222 @@
+import Database = require("better-sqlite3");
+import { createRestQL } from "..";
+import { createWebAdapter } from "../adapters/web";
+import { encodeCursor } from "../cursor";
+import {
+  createMysqlDriver,
+  createPgDriver,
+  createSqliteDriver,
+  MysqlQueryable,
+} from "../drivers";
+
+describe("Executor", () => {
+  describe("SQLite driver", () => {
+    let db: Database.Database;
+    let restql: ReturnType<typeof createRestQL>;
+
+    beforeEach(() => {
+      db = new Database(":memory:");
+      db.exec(`
+        CREATE TABLE users (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          active INTEGER NOT NULL DEFAULT 1
+        );
+        INSERT INTO users (name) VALUES ('Ann'), ('Bob'), ('Cid'), ('Dee');
+      `);
+      restql = createRestQL({
+        dialect: "sqlite",
+        driver: createSqliteDriver(db),
+      });
+    });
+
+    afterEach(() => db.close());
+
+    it("should read rows", async () => {
+      const result = await restql.execute({
+        method: "GET",
+        path: "/users",
+        query: {
+          select: ["id", "name"],
+          where: { field: "id", operator: "IN", value: [1, 3] },
+        },
+      });
+      expect(result).toEqual({
+        rows: [
+          { id: 1, name: "Ann" },
+          { id: 3, name: "Cid" },
+        ],
+        rowCount: 2,
+      });
+    });
+
+    it("should report affected rows and inserted ids", async () => {
+      const inserted = await restql.execute({
+        method: "POST",
+        path: "/users",
+        body: [{ name: "Eve" }, { name: "Fay", active: false }],
+      });
+      expect(inserted).toEqual({ rows: [], rowCount: 2, insertId: 5 });
+
+      const updated = await restql.execute({
+        method: "PUT",
+        path: "/users/6",
+        body: { active: true },
+      });
+      expect(updated).toEqual({ rows: [], rowCount: 1 });
+      expect(db.prepare("SELECT active FROM users WHERE id = 6").get()).toEqual(
+        { active: 1 }
+      );
+    });
+
+    it("should return affected rows with returning", async () => {
+      const result = await restql.execute({
+        method: "DELETE",
+        path: "/users/2",
+        query: { returning: ["id", "name"] },
+      });
+      expect(result).toEqual({ rows: [{ id: 2, name: "Bob" }], rowCount: 1 });
+    });
+
+    it("should restore the order of rows read before a cursor", async () => {
+      const orderBy = [{ field: "id", direction: "ASC" as const }];
+      const result = await restql.execute({
+        method: "GET",
+        path: "/users",
+        query: {
+          select: ["id"],
+          orderBy,
+          limit: 2,
+          before: encodeCursor({ id: 4 }, orderBy),
+        },
+      });
+      expect(result.rows).toEqual([{ id: 2 }, { id: 3 }]);
+    });
+
+    it("should execute through the adapters", async () => {
+      const adapter = createWebAdapter({
+        dialect: "sqlite",
+        driver: createSqliteDriver(db),
+      });
+      const result = await adapter.execute(
+        new Request("http://test.com/users/1")
+      );
+      expect(result.rows).toEqual([{ id: 1, name: "Ann", active: 1 }]);
+    });
+  });
+
+  describe("MySQL driver", () => {
+    function createConnection(
+      results: Record<string, any>[]
+    ): MysqlQueryable & { calls: [string, any[]][] } {
+      const calls: [string, any[]][] = [];
+      return {
+        calls,
+        async execute(sql: string, params: any[]) {
+          calls.push([sql, params]);
+          return [results.shift() as any, undefined];
+        },
+      };
+    }
+
+    it("should select updated rows after the update", async () => {
+      const connection = createConnection([
+        { affectedRows: 1, insertId: 0 },
+        [{ id: 1, name: "Jane" }],
+      ]);
+      const restql = createRestQL({
+        dialect: "mysql",
+        driver: createMysqlDriver(connection),
+      });
+
+      const result = await restql.execute({
+        method: "PUT",
+        path: "/users/1",
+        body: { name: "Jane" },
+        query: { returning: ["id", "name"] },
+      });
+      expect(connection.calls.map(([sql]) => sql)).toEqual([
+        "UPDATE `users` SET `name` = ? WHERE `id` = ?",
+        "SELECT `id`, `name` FROM `users` WHERE `id` = ?",
+      ]);
+      expect(result).toEqual({ rows: [{ id: 1, name: "Jane" }], rowCount: 1 });
+    });
+
+    it("should select deleted rows before the delete", async () => {
+      const connection = createConnection([
+        [{ id: 1 }],
+        { affectedRows: 1, insertId: 0 },
+      ]);
+      const restql = createRestQL({
+        dialect: "mysql",
+        driver: createMysqlDriver(connection),
+      });
+
+      const result = await restql.execute({
+        method: "DELETE",
+        path: "/users/1",
+        query: { returning: ["id"] },
+      });
+      expect(connection.calls[0][0]).toMatch(/^SELECT/);
+      expect(connection.calls[1][0]).toMatch(/^DELETE/);
+      expect(result).toEqual({ rows: [{ id: 1 }], rowCount: 1 });
+    });
+
+    it("should select inserted rows by their generated ids", async () => {
+      const connection = createConnection([
+        { affectedRows: 2, insertId: 41 },
+        [
+          { id: 41, name: "A" },
+          { id: 42, name: "B" },
+        ],
+      ]);
+      const restql = createRestQL({
+        dialect: "mysql",
+        driver: createMysqlDriver(connection),
+      });
+
+      const result = await restql.execute({
+        method: "POST",
+        path: "/users",
+        body: [{ name: "A" }, { name: "B" }],
+        query: { returning: ["id", "name"] },
+      });
+      expect(connection.calls[1]).toEqual([
+        "SELECT `id`, `name` FROM `users` WHERE `id` BETWEEN ? AND ?",
+        [41, 42],
+      ]);
+      expect(result.rows).toHaveLength(2);
+      expect(result.insertId).toBe(41);
+    });
+  });
+
+  describe("PostgreSQL driver", () => {
+    it("should normalize query results", async () => {
+      const driver = createPgDriver({
+        async query() {
+          return { rows: [{ id: 1 }], rowCount: null };
+        },
+      });
+      await expect(driver.execute("SELECT 1", [])).resolves.toEqual({
+        rows: [{ id: 1 }],
+        rowCount: 1,
+      });
+    });
+  });
+
+  it("should require a matching driver", async () => {
+    expect(() =>
+      createRestQL({
+        dialect: "postgres",
+        driver: createSqliteDriver(new Database(":memory:")),
+      })
+    ).toThrow('Driver dialect "sqlite" does not match "postgres"');
+
+    await expect(
+      createRestQL({ dialect: "postgres" }).execute({
+        method: "GET",
+        path: "/users",
+      })
+    ).rejects.toThrow("No driver configured");
+  });
+});
@@ -0,0 +1,260 @@
+import Database = require("better-sqlite3");
+import {
+  createRestQL,
+  ForbiddenError,
+  maskValue,
+  SchemaConfig,
+  toSnakeCase,
+} from "..";
+import { createSqliteDriver } from "../drivers";
+
+describe("Field name mapping", () => {
+  const restql = createRestQL({
+    dialect: "postgres",
+    fieldMapping: {
+      strategy: "snake_case",
+      tables: { users: { email: "usr_email_addr" } },
+    },
+  });
+
+  it("should convert camelCase names to snake_case", () => {
+    expect(toSnakeCase("createdAt")).toBe("created_at");
+    expect(toSnakeCase("userID")).toBe("user_id");
+    expect(toSnakeCase("HTMLParser")).toBe("html_parser");
+    expect(toSnakeCase("name")).toBe("name");
+  });
+
+  it("should translate reads and alias results back to API names", () => {
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        query: {
+          select: [
+            "id",
+            "createdAt",
+            "email",
+            { fn: "count", field: "*", as: "orderCount" },
+          ],
+          joins: [
+            {
+              type: "LEFT",
+              table: "orders",
+              on: [
+                { field: "orders.userId", operator: "=", value: "users.id" },
+              ],
+            },
+          ],
+          where: [
+            { field: "lastLogin", operator: ">", value: "2024-01-01" },
+            { field: "users.email", operator: "LIKE", value: "%@acme.com" },
+          ],
+          groupBy: ["id", "createdAt", "email"],
+          having: [{ field: "orderCount", operator: ">", value: 2 }],
+          orderBy: [{ field: "createdAt", direction: "DESC" }],
+        },
+      })
+    ).toEqual({
+      sql:
+        'SELECT "id", "created_at" AS "createdAt", "usr_email_addr" AS "email", COUNT(*) AS "orderCount" ' +
+        'FROM "users" LEFT JOIN "orders" ON "orders"."user_id" = "users"."id" ' +
+        'WHERE "last_login" > $1 AND "users"."usr_email_addr" LIKE $2 ESCAPE \'\\\' ' +
+        'GROUP BY "id", "created_at", "usr_email_addr" HAVING COUNT(*) > $3 ORDER BY "created_at" DESC',
+      params: ["2024-01-01", "%@acme.com", 2],
+    });
+  });
+
+  it("should only map join values qualified with a table of the request", () => {
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        query: {
+          joins: [
+            {
+              type: "INNER",
+              table: "orders",
+              alias: "o",
+              on: [
+                { field: "o.userId", operator: "=", value: "users.id" },
+                { field: "o.shipTo", operator: "=", value: "Dr. MacLeod" },
+              ],
+            },
+          ],
+        },
+      })
+    ).toEqual({
+      sql: 'SELECT * FROM "users" INNER JOIN "orders" AS "o" ON "o"."user_id" = "users"."id" AND "o"."ship_to" = $1',
+      params: ["Dr. MacLeod"],
+    });
+  });
+
+  it("should translate mutation bodies and returned columns", () => {
+    expect(
+      restql.toSQL({
+        method: "POST",
+        path: "/users",
+        body: { fullName: "Ann", email: "ann@acme.com" },
+        query: {
+          returning: ["id", "fullName"],
+          onConflict: { action: "merge", target: ["email"] },
+        },
+      }).sql
+    ).toBe(
+      'INSERT INTO "users" ("full_name", "usr_email_addr") VALUES ($1, $2) ' +
+        'ON CONFLICT ("usr_email_addr") DO UPDATE SET "full_name" = EXCLUDED."full_name" ' +
+        'RETURNING "id", "full_name" AS "fullName"'
+    );
+    expect(
+      restql.toSQL({
+        method: "PUT",
+        path: "/users/1",
+        body: { fullName: "Ann" },
+      })
+    ).toEqual({
+      sql: 'UPDATE "users" SET "full_name" = $1 WHERE "id" = $2',
+      params: ["Ann", "1"],
+    });
+  });
+
+  it("should let the schema, permissions and policies use API names", () => {
+    const schema: SchemaConfig = {
+      tables: {
+        users: {
+          columns: { userId: "int", fullName: "string" },
+          primaryKey: "userId",
+        },
+        orders: {
+          columns: { orderId: "int", userId: "int", totalCents: "int" },
+          primaryKey: "orderId",
+          foreignKeys: [{ columns: "userId", references: "users" }],
+        },
+      },
+    };
+    const mapped = createRestQL({
+      dialect: "postgres",
+      schema,
+      fieldMapping: { strategy: "snake_case" },
+      permissions: {
+        tables: {
+          users: { member: { operations: ["READ"] } },
+          orders: { member: { operations: ["READ"] } },
+        },
+      },
+      policies: {
+        users: ({ principal }) => ({
+          field: "userId",
+          operator: "=",
+          value: principal?.id,
+        }),
+      },
+    });
+
+    expect(
+      mapped.toSQL({
+        method: "GET",
+        path: "/users",
+        query: { select: ["*", { orders: ["totalCents"] }] },
+        principal: { id: 7, role: "member" },
+      }).sql
+    ).toBe(
+      'SELECT "user_id" AS "userId", "full_name" AS "fullName", ' +
+        "(SELECT COALESCE(json_agg(json_build_object('totalCents', \"orders_1\".\"total_cents\")), '[]') " +
+        'FROM "orders" AS "orders_1" WHERE "orders_1"."user_id" = "users"."user_id") AS "orders" ' +
+        'FROM "users" WHERE "user_id" = $1'
+    );
+    expect(
+      mapped.toSQL({
+        method: "GET",
+        path: "/users/7/orders/3",
+        principal: { id: 7, role: "member" },
+      }).sql
+    ).toBe(
+      'SELECT "order_id" AS "orderId", "user_id" AS "userId", "total_cents" AS "totalCents" ' +
+        'FROM "orders" WHERE "user_id" = $1 AND "order_id" = $2 LIMIT 1'
+    );
+  });
+
+  it("should return rows under their API names", async () => {
+    const db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, full_name TEXT, usr_email_addr TEXT);
+    `);
+    const sqlite = createRestQL({
+      dialect: "sqlite",
+      driver: createSqliteDriver(db),
+      schema: {
+        tables: {
+          users: {
+            columns: { id: "int", fullName: "string", email: "string" },
+          },
+        },
+      },
+      fieldMapping: {
+        strategy: "snake_case",
+        tables: { users: { email: "usr_email_addr" } },
+      },
+    });
+
+    await sqlite.execute({
+      method: "POST",
+      path: "/users",
+      body: { fullName: "Ann", email: "ann@acme.com" },
+    });
+    expect(
+      db.prepare("SELECT full_name, usr_email_addr FROM users").get()
+    ).toEqual({ full_name: "Ann", usr_email_addr: "ann@acme.com" });
+
+    const result = await sqlite.execute({
+      method: "GET",
+      path: "/users",
+      query: { where: { field: "fullName", operator: "=", value: "Ann" } },
+    });
+    expect(result.rows).toEqual([
+      { id: 1, fullName: "Ann", email: "ann@acme.com" },
+    ]);
+    db.close();
+  });
+
+  it("should not return renamed masked columns through *", async () => {
+    const db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, phone_number TEXT);
+      INSERT INTO users (phone_number) VALUES ('555-123-4567');
+    `);
+    const masked = createRestQL({
+      dialect: "sqlite",
+      driver: createSqliteDriver(db),
+      fieldMapping: { strategy: "snake_case" },
+      permissions: {
+        tables: {
+          users: {
+            member: {
+              operations: ["READ"],
+              masked: { phoneNumber: "partial" },
+            },
+          },
+        },
+      },
+    });
+    const principal = { role: "member" };
+
+    await expect(
+      masked.execute({ method: "GET", path: "/users", principal })
+    ).rejects.toThrow(
+      new ForbiddenError(
+        'Select columns explicitly, "*" would return the masked column "phoneNumber" unmasked'
+      )
+    );
+    const result = await masked.execute({
+      method: "GET",
+      path: "/users",
+      query: { select: ["id", "phoneNumber"] },
+      principal,
+    });
+    expect(result.rows).toEqual([
+      { id: 1, phoneNumber: maskValue("555-123-4567", "partial") },
+    ]);
+    db.close();
+  });
+});
@@ -0,0 +1,280 @@
+import Database = require("better-sqlite3");
+import express = require("express");
+import Fastify from "fastify";
+import { AddressInfo } from "net";
+import { encodeQuery } from "..";
+import { createExpressAdapter } from "../adapters/express";
+import { createFastifyAdapter } from "../adapters/fastify";
+import { createWebAdapter } from "../adapters/web";
+import { createSqliteDriver } from "../drivers";
+
+describe("HTTP handlers", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+      INSERT INTO users (name) VALUES ('Ann'), ('Bob');
+    `);
+  });
+
+  afterEach(() => db.close());
+
+  function options() {
+    return { dialect: "sqlite" as const, driver: createSqliteDriver(db) };
+  }
+
+  describe("Web handler", () => {
+    function createHandler() {
+      return createWebAdapter(options()).handler({ basePath: "/api" });
+    }
+
+    function request(path: string, init?: RequestInit): Request {
+      return new Request(`http://test.com/api${path}`, {
+        ...init,
+        headers: init?.body ? { "Content-Type": "application/json" } : {},
+      });
+    }
+
+    it("should list and read rows", async () => {
+      const handler = createHandler();
+
+      const list = await handler(
+        request(`/users?q=${encodeQuery({ select: ["name"] })}`)
+      );
+      expect(list.status).toBe(200);
+      expect(list.headers.get("content-type")).toBe("application/json");
+      expect(await list.json()).toEqual({
+        data: [{ name: "Ann" }, { name: "Bob" }],
+      });
+
+      const item = await handler(request("/users/2"));
+      expect(await item.json()).toEqual({ data: { id: 2, name: "Bob" } });
+    });
+
+    it("should answer 404 for missing rows", async () => {
+      const handler = createHandler();
+
+      for (const method of ["GET", "DELETE"]) {
+        const response = await handler(request("/users/9", { method }));
+        expect(response.status).toBe(404);
+      }
+      const update = await handler(
+        request("/users/9", { method: "PUT", body: '{"name":"X"}' })
+      );
+      expect(update.status).toBe(404);
+    });
+
+    it("should create, update and delete rows", async () => {
+      const handler = createHandler();
+
+      const created = await handler(
+        request(`/users?q=${encodeQuery({ returning: ["id", "name"] })}`, {
+          method: "POST",
+          body: JSON.stringify({ name: "Cid" }),
+        })
+      );
+      expect(created.status).toBe(201);
+      expect(await created.json()).toEqual({
+        data: [{ id: 3, name: "Cid" }],
+        count: 1,
+      });
+
+      const updated = await handler(
+        request("/users/3", { method: "PUT", body: '{"name":"Cy"}' })
+      );
+      expect(updated.status).toBe(200);
+      expect(await updated.json()).toEqual({ data: [], count: 1 });
+
+      const deleted = await handler(request("/users/3", { method: "DELETE" }));
+      expect(deleted.status).toBe(204);
+      expect(await deleted.text()).toBe("");
+    });
+
+    it("should answer errors with problem details", async () => {
+      const handler = createHandler();
+
+      const invalid = await handler(request("/users?q=not-json"));
+      expect(invalid.status).toBe(400);
+      expect(invalid.headers.get("content-type")).toBe(
+        "application/problem+json"
+      );
+      expect(await invalid.json()).toEqual({
+        type: "about:blank",
+        title: "Bad Request",
+        status: 400,
+        detail: "Invalid base64 or JSON format",
+        code: "INVALID_QUERY",
+      });
+
+      const misplaced = await handler(
+        request(
+          `/users?q=${encodeQuery({
+            where: {
+              operator: "OR",
+              conditions: [
+                { field: "id", operator: "=", value: 1 },
+                { field: "id", operator: "=" },
+              ],
+            },
+          })}`
+        )
+      );
+      expect(await misplaced.json()).toMatchObject({
+        status: 400,
+        code: "INVALID_QUERY",
+        path: "where.conditions[1]",
+      });
+
+      const failed = await handler(request("/missing_table"));
+      expect(failed.status).toBe(500);
+      expect(await failed.json()).toEqual({
+        type: "about:blank",
+        title: "Internal Server Error",
+        status: 500,
+        detail: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+
+      const missing = await handler(request("/users/9"));
+      expect(await missing.json()).toMatchObject({
+        status: 404,
+        code: "NOT_FOUND",
+      });
+
+      const unsupported = await handler(request("/users", { method: "HEAD" }));
+      expect(unsupported.status).toBe(405);
+    });
+
+    it("should require a driver", () => {
+      expect(() => createWebAdapter({ dialect: "sqlite" }).handler()).toThrow(
+        "A driver is required to serve requests"
+      );
+    });
+  });
+
+  describe("Express router", () => {
+    it("should serve the API below its mount point", async () => {
+      const app = express();
+      app.use("/api", express.json(), createExpressAdapter(options()).router());
+      const server = app.listen(0);
+      const { port } = server.address() as AddressInfo;
+      const url = `http://127.0.0.1:${port}/api`;
+
+      try {
+        const item = await fetch(`${url}/users/1`);
+        expect(item.status).toBe(200);
+        expect(await item.json()).toEqual({ data: { id: 1, name: "Ann" } });
+
+        const created = await fetch(`${url}/users`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify([{ name: "Cid" }, { name: "Dee" }]),
+        });
+        expect(created.status).toBe(201);
+        expect(await created.json()).toEqual({ data: [], count: 2 });
+
+        const deleted = await fetch(`${url}/users/1`, { method: "DELETE" });
+        expect(deleted.status).toBe(204);
+
+        const missing = await fetch(`${url}/users/1`);
+        expect(missing.status).toBe(404);
+        expect(missing.headers.get("content-type")).toMatch(
+          /^application\/problem\+json/
+        );
+        expect((await missing.json()).code).toBe("NOT_FOUND");
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it("should delete the rows matching a filter", async () => {
+      const app = express();
+      app.use("/api", express.json(), createExpressAdapter(options()).router());
+      const server = app.listen(0);
+      const { port } = server.address() as AddressInfo;
+      const url = `http://127.0.0.1:${port}/api`;
+
+      try {
+        const where = { field: "name", operator: "=", value: "Bob" };
+        const deleted = await fetch(
+          `${url}/users?q=${encodeQuery({ where })}`,
+          { method: "DELETE", headers: { "Content-Type": "application/json" } }
+        );
+        expect(deleted.status).toBe(204);
+        expect(db.prepare("SELECT name FROM users").all()).toEqual([
+          { name: "Ann" },
+        ]);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  describe("Fastify plugin", () => {
+    it("should serve the API below its prefix", async () => {
+      const app = Fastify();
+      await app.register(createFastifyAdapter(options()).plugin(), {
+        prefix: "/api",
+      });
+
+      const list = await app.inject({
+        method: "GET",
+        url: `/api/users?q=${encodeQuery({
+          where: { field: "name", operator: "=", value: "Bob" },
+        })}`,
+      });
+      expect(list.statusCode).toBe(200);
+      expect(list.json()).toEqual({ data: [{ id: 2, name: "Bob" }] });
+
+      const updated = await app.inject({
+        method: "PUT",
+        url: "/api/users/2",
+        payload: { name: "Rob" },
+      });
+      expect(updated.statusCode).toBe(200);
+      expect(db.prepare("SELECT name FROM users WHERE id = 2").get()).toEqual({
+        name: "Rob",
+      });
+
+      const deleted = await app.inject({
+        method: "DELETE",
+        url: "/api/users/2",
+      });
+      expect(deleted.statusCode).toBe(204);
+
+      const invalid = await app.inject({
+        method: "GET",
+        url: `/api/users?q=${encodeQuery({ select: "name" })}`,
+      });
+      expect(invalid.statusCode).toBe(400);
+      expect(invalid.headers["content-type"]).toMatch(
+        /^application\/problem\+json/
+      );
+      expect(invalid.json()).toMatchObject({ status: 400, path: "select" });
+
+      await app.close();
+    });
+
+    it("should delete the rows matching a filter when the body is null", async () => {
+      const app = Fastify();
+      await app.register(createFastifyAdapter(options()).plugin());
+
+      const deleted = await app.inject({
+        method: "DELETE",
+        url: `/users?q=${encodeQuery({
+          where: { field: "name", operator: "=", value: "Bob" },
+        })}`,
+        headers: { "content-type": "application/json" },
+        payload: "null",
+      });
+      expect(deleted.statusCode).toBe(204);
+      expect(db.prepare("SELECT name FROM users").all()).toEqual([
+        { name: "Ann" },
+      ]);
+
+      await app.close();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import Database = require("better-sqlite3");
+import { createHash } from "crypto";
+import {
+  createRestQL,
+  ForbiddenError,
+  maskValue,
+  PermissionsConfig,
+  RestQLError,
+} from "..";
+import { createSqliteDriver } from "../drivers";
+import { RestQLRequest } from "../types";
+
+describe("Column masking", () => {
+  const permissions: PermissionsConfig = {
+    tables: {
+      users: {
+        admin: { operations: ["READ", "UPDATE"] },
+        support: {
+          operations: ["READ", "UPDATE"],
+          readable: ["id", "name"],
+          writable: ["email"],
+          masked: { email: "partial", phone: "null", ssn: "hash" },
+        },
+        analyst: {
+          operations: ["READ"],
+          masked: { email: "omit", ssn: "omit" },
+        },
+      },
+    },
+  };
+  const support = { role: "support" };
+  const sha256 = (text: string) =>
+    createHash("sha256").update(text).digest("hex");
+
+  let db: Database.Database;
+  let restql: ReturnType<typeof createRestQL>;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, email TEXT, phone TEXT, ssn TEXT);
+      INSERT INTO users (name, email, phone, ssn) VALUES
+        ('Jane', 'jane@example.com', '555-0100', '123-45-6789'),
+        ('Joe', NULL, NULL, '987-65-4321');
+    `);
+    restql = createRestQL({
+      dialect: "sqlite",
+      driver: createSqliteDriver(db),
+      permissions,
+    });
+  });
+
+  afterEach(() => db.close());
+
+  it("should mask values by strategy", () => {
+    expect(maskValue("jane@example.com", "partial")).toBe("j***@example.com");
+    expect(maskValue("123-45-6789", "partial")).toBe("***6789");
+    expect(maskValue("abc", "partial")).toBe("***");
+    expect(maskValue(42, "hash")).toBe(sha256("42"));
+    expect(maskValue("x", "null")).toBeNull();
+    expect(maskValue(null, "hash")).toBeNull();
+  });
+
+  it("should mask columns read through *", async () => {
+    expect(
+      restql.toSQL({ method: "GET", path: "/users", principal: support })
+    ).toEqual({
+      sql: 'SELECT "id", "name", "email", "phone", "ssn" FROM "users"',
+      params: [],
+      meta: { masks: { email: "partial", phone: "null", ssn: "hash" } },
+    });
+
+    const { rows } = await restql.execute({
+      method: "GET",
+      path: "/users",
+      principal: support,
+    });
+    expect(rows).toEqual([
+      {
+        id: 1,
+        name: "Jane",
+        email: "j***@example.com",
+        phone: null,
+        ssn: sha256("123-45-6789"),
+      },
+      {
+        id: 2,
+        name: "Joe",
+        email: null,
+        phone: null,
+        ssn: sha256("987-65-4321"),
+      },
+    ]);
+
+    const analyst = await restql.execute({
+      method: "GET",
+      path: "/users/1",
+      principal: { role: "analyst" },
+    });
+    expect(analyst.rows).toEqual([{ id: 1, name: "Jane", phone: "555-0100" }]);
+  });
+
+  it("should mask columns selected or returned explicitly", async () => {
+    const selected = await restql.execute({
+      method: "GET",
+      path: "/users",
+      principal: support,
+      query: { select: ["users.email"], limit: 1 },
+    });
+    expect(selected.rows).toEqual([{ email: "j***@example.com" }]);
+
+    const updated = await restql.execute({
+      method: "PUT",
+      path: "/users/1",
+      principal: support,
+      body: { email: "june@example.org" },
+      query: { returning: ["email"] },
+    });
+    expect(updated.rows).toEqual([{ email: "j***@example.org" }]);
+    expect(db.prepare("SELECT email FROM users WHERE id = 1").get()).toEqual({
+      email: "june@example.org",
+    });
+  });
+
+  it("should forbid using masked columns other than reading them", () => {
+    const cases: [RestQLRequest["query"], string][] = [
+      [
+        { where: [{ field: "email", operator: "LIKE", value: "j%" }] },
+        "where[0].field",
+      ],
+      [{ orderBy: [{ field: "ssn", direction: "ASC" }] }, "orderBy[0].field"],
+      [
+        { select: ["phone", { fn: "count", field: "*" }], groupBy: ["phone"] },
+        "groupBy[0]",
+      ],
+      [{ select: [{ fn: "max", field: "ssn" }] }, "select[0].field"],
+      [{ select: [{ field: "email", as: "contact" }] }, "select[0].field"],
+    ];
+    for (const [query, path] of cases) {
+      let error: RestQLError | undefined;
+      try {
+        restql.toSQL({
+          method: "GET",
+          path: "/users",
+          principal: support,
+          query,
+        });
+      } catch (caught) {
+        error = caught as RestQLError;
+      }
+      expect(error).toBeInstanceOf(ForbiddenError);
+      expect(error?.message).toMatch(
+        /^Column "\w+" is masked for role "support"$/
+      );
+      expect(error?.path).toBe(path);
+    }
+
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        principal: { role: "admin" },
+        query: { where: [{ field: "email", operator: "LIKE", value: "j%" }] },
+      }).meta
+    ).toBeUndefined();
+  });
+});
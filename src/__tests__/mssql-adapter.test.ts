@@ -0,0 +1,327 @@
+import { createWebAdapter } from "../adapters/web";
+import { encodeCursor } from "../cursor";
+
+describe("Web Adapter (SQL Server)", () => {
+  const adapter = createWebAdapter({
+    dialect: "mssql",
+  });
+
+  function encodeQuery(query: any): string {
+    return Buffer.from(JSON.stringify(query)).toString("base64");
+  }
+
+  function createRequest(
+    path: string,
+    options: {
+      method?: string;
+      query?: any;
+      body?: any;
+    } = {}
+  ): Request {
+    const { method = "GET", query, body } = options;
+    const url = new URL(`http://test.com${path}`);
+
+    if (query) {
+      url.searchParams.set("q", encodeQuery(query));
+    }
+
+    return new Request(url, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  }
+
+  describe("SELECT queries", () => {
+    it("should generate simple SELECT query", async () => {
+      const req = createRequest("/users", {
+        query: {
+          select: ["id", "name", "email"],
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe("SELECT [id], [name], [email] FROM [users]");
+      expect(result.params).toEqual([]);
+    });
+
+    it("should handle WHERE conditions", async () => {
+      const req = createRequest("/users", {
+        query: {
+          where: {
+            operator: "AND",
+            conditions: [
+              { field: "age", operator: ">", value: 18 },
+              { field: "status", operator: "=", value: "active" },
+            ],
+          },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "SELECT * FROM [users] WHERE [age] > @p1 AND [status] = @p2"
+      );
+      expect(result.params).toEqual([18, "active"]);
+    });
+
+    it("should handle JOINs", async () => {
+      const req = createRequest("/users", {
+        query: {
+          select: ["users.id", "orders.total"],
+          joins: [
+            {
+              type: "LEFT",
+              table: "orders",
+              on: [
+                { field: "users.id", operator: "=", value: "orders.user_id" },
+              ],
+            },
+          ],
+          where: { field: "orders.total", operator: ">", value: 100 },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "SELECT [users].[id], [orders].[total] FROM [users] LEFT JOIN [orders] ON [users].[id] = [orders].[user_id] WHERE [orders].[total] > @p1"
+      );
+      expect(result.params).toEqual([100]);
+    });
+
+    it("should handle GROUP BY and HAVING", async () => {
+      const req = createRequest("/orders", {
+        query: {
+          select: ["user_id", { fn: "count", field: "*", as: "order_count" }],
+          groupBy: ["user_id"],
+          having: [{ field: "order_count", operator: ">", value: 5 }],
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "SELECT [user_id], COUNT(*) AS [order_count] FROM [orders] GROUP BY [user_id] HAVING COUNT(*) > @p1"
+      );
+      expect(result.params).toEqual([5]);
+    });
+  });
+
+  describe("Pagination", () => {
+    it("should page with OFFSET and FETCH", async () => {
+      const req = createRequest("/users", {
+        query: {
+          orderBy: [{ field: "created_at", direction: "DESC" }],
+          limit: 10,
+          offset: 20,
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "SELECT * FROM [users] ORDER BY [created_at] DESC OFFSET 20 ROWS FETCH NEXT 10 ROWS ONLY"
+      );
+    });
+
+    it("should fetch from the first row when only a limit is ordered", async () => {
+      const req = createRequest("/users", {
+        query: {
+          orderBy: [{ field: "id", direction: "ASC" }],
+          limit: 10,
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "SELECT * FROM [users] ORDER BY [id] ASC OFFSET 0 ROWS FETCH NEXT 10 ROWS ONLY"
+      );
+    });
+
+    it("should use TOP for unordered limits", async () => {
+      const result = await adapter.toSQL(createRequest("/users/1"));
+      expect(result.sql).toBe("SELECT TOP (1) * FROM [users] WHERE [id] = @p1");
+      expect(result.params).toEqual(["1"]);
+    });
+
+    it("should require ORDER BY to skip rows", async () => {
+      const req = createRequest("/users", { query: { limit: 10, offset: 20 } });
+
+      await expect(adapter.toSQL(req)).rejects.toThrow(
+        "SQL Server pagination requires orderBy"
+      );
+    });
+
+    it("should expand cursors without row values", async () => {
+      const orderBy = [
+        { field: "created_at", direction: "DESC" },
+        { field: "id", direction: "DESC" },
+      ];
+      const req = createRequest("/users", {
+        query: {
+          orderBy,
+          limit: 10,
+          after: encodeCursor(
+            { created_at: 1704067200, id: 7 },
+            orderBy as any
+          ),
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "SELECT * FROM [users] WHERE (([created_at] < @p1) OR ([created_at] = @p2 AND [id] < @p3)) ORDER BY [created_at] DESC, [id] DESC OFFSET 0 ROWS FETCH NEXT 10 ROWS ONLY"
+      );
+      expect(result.params).toEqual([1704067200, 1704067200, 7]);
+    });
+  });
+
+  describe("Special operators", () => {
+    it("should expand IN lists", async () => {
+      const req = createRequest("/users", {
+        query: {
+          where: {
+            field: "status",
+            operator: "IN",
+            value: ["active", "pending"],
+          },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "SELECT * FROM [users] WHERE [status] IN (@p1, @p2)"
+      );
+      expect(result.params).toEqual(["active", "pending"]);
+    });
+
+    it("should render BETWEEN and null checks", async () => {
+      const req = createRequest("/users", {
+        query: {
+          where: {
+            operator: "AND",
+            conditions: [
+              { field: "deleted_at", operator: "IS NULL" },
+              { field: "age", operator: "BETWEEN", value: [18, 30] },
+            ],
+          },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toMatch(
+        /WHERE \[deleted_at\] IS NULL AND \[age\] BETWEEN @p1 AND @p2$/
+      );
+      expect(result.params).toEqual([18, 30]);
+    });
+  });
+
+  describe("Mutations", () => {
+    it("should handle INSERT", async () => {
+      const req = createRequest("/users", {
+        method: "POST",
+        body: [
+          { name: "John", email: "john@example.com" },
+          { name: "Jane", email: "jane@example.com" },
+        ],
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "INSERT INTO [users] ([name], [email]) VALUES (@p1, @p2), (@p3, @p4)"
+      );
+      expect(result.params).toHaveLength(4);
+    });
+
+    it("should handle UPDATE", async () => {
+      const req = createRequest("/users/1", {
+        method: "PUT",
+        body: { name: "Updated Name" },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "UPDATE [users] SET [name] = @p1 WHERE [id] = @p2"
+      );
+      expect(result.params).toEqual(["Updated Name", "1"]);
+    });
+
+    it("should reuse key parameters in bulk UPDATE", async () => {
+      const req = createRequest("/users", {
+        method: "PUT",
+        body: [
+          { id: 1, status: "active" },
+          { id: 2, status: "inactive" },
+        ],
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "UPDATE [users] SET [status] = CASE WHEN [id] = @p1 THEN @p3 WHEN [id] = @p2 THEN @p4 ELSE [status] END WHERE [id] IN (@p1, @p2)"
+      );
+      expect(result.params).toEqual([1, 2, "active", "inactive"]);
+    });
+
+    it("should handle DELETE", async () => {
+      const req = createRequest("/users", {
+        method: "DELETE",
+        body: [{ id: 1 }, { id: 2 }],
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe("DELETE FROM [users] WHERE [id] IN (@p1, @p2)");
+      expect(result.params).toEqual([1, 2]);
+    });
+
+    it("should reject upserts", async () => {
+      const req = createRequest("/users", {
+        method: "POST",
+        query: { onConflict: { action: "merge" } },
+        body: { id: 1, name: "John" },
+      });
+
+      await expect(adapter.toSQL(req)).rejects.toThrow(
+        "onConflict is not supported on SQL Server"
+      );
+    });
+  });
+
+  describe("OUTPUT", () => {
+    it("should output inserted rows", async () => {
+      const req = createRequest("/users", {
+        method: "POST",
+        query: { returning: ["*"] },
+        body: { name: "John" },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "INSERT INTO [users] ([name]) OUTPUT INSERTED.* VALUES (@p1)"
+      );
+      expect(result.returning).toBeUndefined();
+    });
+
+    it("should output updated rows", async () => {
+      const req = createRequest("/users/1", {
+        method: "PUT",
+        query: { returning: ["id", "name"] },
+        body: { name: "Jane" },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "UPDATE [users] SET [name] = @p1 OUTPUT INSERTED.[id], INSERTED.[name] WHERE [id] = @p2"
+      );
+    });
+
+    it("should output deleted rows", async () => {
+      const req = createRequest("/users/1", {
+        method: "DELETE",
+        query: { returning: ["id"] },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "DELETE FROM [users] OUTPUT DELETED.[id] WHERE [id] = @p1"
+      );
+    });
+  });
+});
@@ -333,6 +333,62 @@ describe("MySQL Web Adapter", () => {
     });
   });
 
+  describe("Special operators", () => {
+    it("should expand IN lists into placeholders", async () => {
+      const req = createRequest("/users", {
+        query: {
+          where: {
+            field: "status",
+            operator: "IN",
+            value: ["active", "pending"],
+          },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe("SELECT * FROM `users` WHERE `status` IN (?, ?)");
+      expect(result.params).toEqual(["active", "pending"]);
+    });
+
+    it("should expand NOT IN lists into placeholders", async () => {
+      const req = createRequest("/users", {
+        query: {
+          where: { field: "id", operator: "NOT IN", value: [1, 2, 3] },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toMatch(/WHERE `id` NOT IN \(\?, \?, \?\)/);
+      expect(result.params).toEqual([1, 2, 3]);
+    });
+
+    it("should render BETWEEN with two parameters", async () => {
+      const req = createRequest("/users", {
+        query: {
+          where: { field: "age", operator: "BETWEEN", value: [18, 30] },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toMatch(/WHERE `age` BETWEEN \? AND \?/);
+      expect(result.params).toEqual([18, 30]);
+    });
+
+    it("should render null checks without parameters", async () => {
+      const req = createRequest("/users", {
+        query: {
+          where: { field: "deleted_at", operator: "IS NULL" },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe(
+        "SELECT * FROM `users` WHERE `deleted_at` IS NULL"
+      );
+      expect(result.params).toEqual([]);
+    });
+  });
+
   describe("Mutations", () => {
     it("should handle INSERT", async () => {
       const req = createRequest("/users", {
@@ -390,7 +446,8 @@ describe("MySQL Web Adapter", () => {
       const result = await adapter.toSQL(req);
       expect(result.sql).toMatch(/UPDATE `users` SET/);
       expect(result.sql).toMatch(/CASE/);
-      expect(result.params).toHaveLength(4);
+      expect(result.sql).toMatch(/WHERE `id` IN \(\?, \?\)$/);
+      expect(result.params).toEqual([1, "active", 2, "inactive", 1, 2]);
     });
 
     it("should handle DELETE", async () => {
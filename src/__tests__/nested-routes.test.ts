@@ -0,0 +1,189 @@
+import Fastify from "fastify";
+import Database = require("better-sqlite3");
+import { createRestQL, NotFoundError, SchemaConfig, ValidationError } from "..";
+import { createFastifyAdapter } from "../adapters/fastify";
+import { createSqliteDriver } from "../drivers";
+
+describe("Nested routes", () => {
+  const schema: SchemaConfig = {
+    tables: {
+      users: { columns: { id: "int", name: "string" } },
+      orders: {
+        columns: { id: "int", user_id: "int", total: "float" },
+        foreignKeys: [{ columns: "user_id", references: "users" }],
+      },
+      items: {
+        columns: { id: "int", order_id: "int", sku: "string" },
+        foreignKeys: [{ columns: "order_id", references: "orders" }],
+      },
+    },
+  };
+  const restql = createRestQL({ dialect: "postgres", schema });
+
+  it("should read children of a parent row through the foreign key", () => {
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users/42/orders",
+        query: {
+          select: ["id"],
+          where: { field: "total", operator: ">", value: 10 },
+        },
+      })
+    ).toEqual({
+      sql: 'SELECT "id" FROM "orders" WHERE "user_id" = $1 AND "total" > $2',
+      params: ["42", 10],
+    });
+    expect(
+      restql.toSQL({ method: "GET", path: "/users/42/orders/7" }).sql
+    ).toBe(
+      'SELECT "id", "user_id", "total" FROM "orders" WHERE "user_id" = $1 AND "id" = $2 LIMIT 1'
+    );
+  });
+
+  it("should scope writes to the parent row", () => {
+    expect(
+      restql.toSQL({
+        method: "POST",
+        path: "/users/42/orders",
+        body: [{ total: 5 }, { total: 6, user_id: 42 }],
+      })
+    ).toEqual({
+      sql: 'INSERT INTO "orders" ("total", "user_id") VALUES ($1, $2), ($3, $4)',
+      params: [5, "42", 6, "42"],
+    });
+    expect(() =>
+      restql.toSQL({
+        method: "POST",
+        path: "/users/42/orders",
+        body: { total: 5, user_id: 7 },
+      })
+    ).toThrow(ValidationError);
+    expect(
+      restql.toSQL({
+        method: "PUT",
+        path: "/users/42/orders/7",
+        body: { total: 1 },
+      }).sql
+    ).toBe(
+      'UPDATE "orders" SET "total" = $1 WHERE "user_id" = $2 AND "id" = $3'
+    );
+    expect(
+      restql.toSQL({
+        method: "DELETE",
+        path: "/users/42/orders",
+        body: [{ id: 1 }, { id: 2 }],
+      }).sql
+    ).toBe('DELETE FROM "orders" WHERE "user_id" = $1 AND "id" = ANY($2)');
+  });
+
+  it("should check deeper nesting against the declared foreign keys", () => {
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users/42/orders/7/items",
+        query: { select: ["sku"] },
+      })
+    ).toEqual({
+      sql:
+        'SELECT "sku" FROM "items" WHERE EXISTS (SELECT 1 FROM "orders" WHERE "id" = $1 AND "user_id" = $2) ' +
+        'AND "order_id" = $3',
+      params: ["7", "42", "7"],
+    });
+    expect(
+      restql.toSQL({
+        method: "DELETE",
+        path: "/users/42/orders/7/items/3",
+      }).sql
+    ).toBe(
+      'DELETE FROM "items" WHERE EXISTS (SELECT 1 FROM "orders" WHERE "id" = $1 AND "user_id" = $2) ' +
+        'AND "order_id" = $3 AND "id" = $4'
+    );
+    expect(() =>
+      restql.toSQL({
+        method: "POST",
+        path: "/users/42/orders/7/items",
+        body: { sku: "A-1" },
+      })
+    ).toThrow(
+      'Rows can only be inserted one level under their parent, as in "/orders/:id/items"'
+    );
+
+    expect(() =>
+      restql.toSQL({ method: "GET", path: "/orders/7/users" })
+    ).toThrow(
+      new NotFoundError('Table "users" has no foreign key to "orders"')
+    );
+    expect(() =>
+      restql.toSQL({ method: "GET", path: "/users/42/items" })
+    ).toThrow('Table "items" has no foreign key to "users"');
+    expect(() =>
+      createRestQL({ dialect: "postgres" }).toSQL({
+        method: "GET",
+        path: "/users/42/orders",
+      })
+    ).toThrow(NotFoundError);
+  });
+
+  it("should serve nested routes through the adapters", async () => {
+    const db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+      CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, total REAL);
+      CREATE TABLE items (id INTEGER PRIMARY KEY, order_id INTEGER, sku TEXT);
+      INSERT INTO users (name) VALUES ('Ann'), ('Bob');
+      INSERT INTO orders (user_id, total) VALUES (1, 10), (2, 20);
+    `);
+    const app = Fastify();
+    await app.register(
+      createFastifyAdapter({
+        dialect: "sqlite",
+        driver: createSqliteDriver(db),
+        schema,
+      }).plugin()
+    );
+
+    const list = await app.inject({ method: "GET", url: "/users/2/orders" });
+    expect(list.json()).toEqual({ data: [{ id: 2, user_id: 2, total: 20 }] });
+
+    const foreign = await app.inject({
+      method: "GET",
+      url: "/users/1/orders/2",
+    });
+    expect(foreign.statusCode).toBe(404);
+
+    const created = await app.inject({
+      method: "POST",
+      url: "/users/1/orders",
+      payload: { total: 30 },
+    });
+    expect(created.statusCode).toBe(201);
+    expect(
+      db.prepare("SELECT user_id FROM orders WHERE total = 30").get()
+    ).toEqual({ user_id: 1 });
+
+    // Order 2 belongs to user 2, so user 1 can't reach its items
+    db.exec("INSERT INTO items (order_id, sku) VALUES (2, 'B-2')");
+    const mismatched = await app.inject({
+      method: "GET",
+      url: "/users/1/orders/2/items",
+    });
+    expect(mismatched.json()).toEqual({ data: [] });
+    const patched = await app.inject({
+      method: "PATCH",
+      url: "/users/1/orders/2/items/1",
+      payload: { sku: "X" },
+    });
+    expect(patched.statusCode).toBe(404);
+    const items = await app.inject({
+      method: "GET",
+      url: "/users/2/orders/2/items",
+    });
+    expect(items.json()).toEqual({
+      data: [{ id: 1, order_id: 2, sku: "B-2" }],
+    });
+
+    await app.close();
+    db.close();
+  });
+});
@@ -0,0 +1,206 @@
+import Database = require("better-sqlite3");
+import { defaultValidationOptions, parseODataQuery } from "..";
+import { createWebAdapter } from "../adapters/web";
+import { createSqliteDriver } from "../drivers";
+import { QueryValidationError } from "../queryValidator";
+
+describe("OData query format", () => {
+  function parse(query: Record<string, string>) {
+    return parseODataQuery(new URLSearchParams(query));
+  }
+
+  it("should parse filters with precedence and grouping", () => {
+    expect(
+      parse({ $filter: "Age gt 18 and (City eq 'NY' or City eq 'LA')" })
+    ).toEqual({
+      where: [
+        { field: "Age", operator: ">", value: 18 },
+        {
+          operator: "OR",
+          conditions: [
+            { field: "City", operator: "=", value: "NY" },
+            { field: "City", operator: "=", value: "LA" },
+          ],
+        },
+      ],
+    });
+
+    expect(parse({ $filter: "a eq 1 or b eq 2 and not c eq 3" }).where).toEqual(
+      [
+        {
+          operator: "OR",
+          conditions: [
+            { field: "a", operator: "=", value: 1 },
+            {
+              operator: "AND",
+              conditions: [
+                { field: "b", operator: "=", value: 2 },
+                {
+                  operator: "AND",
+                  conditions: [{ field: "c", operator: "=", value: 3 }],
+                  not: true,
+                },
+              ],
+            },
+          ],
+        },
+      ]
+    );
+  });
+
+  it("should parse literals, null checks, lists and string functions", () => {
+    expect(
+      parse({
+        $filter:
+          "Name eq 'O''Brien' and Deleted eq null and Active ne false and Born ge 2000-01-31 and Id in (1, 2) and contains(Name,'ann') and startswith(Code,'X') eq false",
+      }).where
+    ).toEqual([
+      { field: "Name", operator: "=", value: "O'Brien" },
+      { field: "Deleted", operator: "IS NULL", value: null },
+      { field: "Active", operator: "!=", value: false },
+      { field: "Born", operator: ">=", value: "2000-01-31" },
+      { field: "Id", operator: "IN", value: [1, 2] },
+      { field: "Name", operator: "LIKE", value: "%ann%" },
+      { field: "Code", operator: "NOT LIKE", value: "X%" },
+    ]);
+  });
+
+  it("should match LIKE metacharacters in string functions literally", async () => {
+    expect(
+      parse({
+        $filter:
+          "contains(Name,'50%') and startswith(Code,'a_b') and endswith(Path,'\\')",
+      }).where
+    ).toEqual([
+      { field: "Name", operator: "LIKE", value: "%50\\%%" },
+      { field: "Code", operator: "LIKE", value: "a\\_b%" },
+      { field: "Path", operator: "LIKE", value: "%\\\\" },
+    ]);
+
+    const db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE codes (id INTEGER PRIMARY KEY, code TEXT);
+      INSERT INTO codes (code) VALUES ('a_b'), ('axb'), ('50%'), ('500');
+    `);
+    const adapter = createWebAdapter(
+      {
+        dialect: "sqlite",
+        validation: defaultValidationOptions,
+        driver: createSqliteDriver(db),
+      },
+      { queryFormat: "odata" }
+    );
+    const codes = async (filter: string) =>
+      (
+        await adapter.execute(
+          new Request(
+            `http://test.com/codes?${new URLSearchParams({
+              $filter: filter,
+              $select: "code",
+            })}`
+          )
+        )
+      ).rows;
+
+    expect(await codes("startswith(code,'a_')")).toEqual([{ code: "a_b" }]);
+    expect(await codes("endswith(code,'0%')")).toEqual([{ code: "50%" }]);
+    db.close();
+  });
+
+  it("should parse select, orderby and paging options", () => {
+    expect(
+      parse({
+        $select: "Id, Name, Orders/Total",
+        $orderby: "Name desc, Id",
+        $top: "10",
+        $skip: "20",
+        custom: "ignored",
+      })
+    ).toEqual({
+      select: ["Id", "Name", "Orders.Total"],
+      orderBy: [
+        { field: "Name", direction: "DESC" },
+        { field: "Id", direction: "ASC" },
+      ],
+      limit: 10,
+      offset: 20,
+    });
+  });
+
+  it("should count matching rows with $count", () => {
+    expect(parse({ $filter: "Age gt 18", $count: "true", $top: "5" })).toEqual({
+      select: [{ fn: "count", field: "*", as: "count" }],
+      where: [{ field: "Age", operator: ">", value: 18 }],
+    });
+  });
+
+  it("should reject unsupported functions, options and syntax", () => {
+    const cases: [Record<string, string>, string, string, RegExp][] = [
+      [
+        { $filter: "tolower(Name) eq 'ann'" },
+        "OPERATOR_NOT_ALLOWED",
+        "$filter",
+        /OData function "tolower" is not supported/,
+      ],
+      [
+        { $expand: "Orders" },
+        "UNSUPPORTED_FEATURE",
+        "$expand",
+        /\$expand is not supported/,
+      ],
+      [
+        { $filter: "Age has 18" },
+        "INVALID_QUERY",
+        "$filter",
+        /Unsupported operator "has" at position 4/,
+      ],
+      [
+        { $filter: "(Age gt 18" },
+        "INVALID_QUERY",
+        "$filter",
+        /Expected "\)" at the end of the expression/,
+      ],
+      [{ $top: "-1" }, "INVALID_PAGINATION", "$top", /non-negative/],
+    ];
+    for (const [query, code, path, message] of cases) {
+      try {
+        parse(query);
+        throw new Error(`Expected ${JSON.stringify(query)} to be rejected`);
+      } catch (error) {
+        expect(error).toBeInstanceOf(QueryValidationError);
+        expect(error).toMatchObject({ code, path });
+        expect((error as Error).message).toMatch(message);
+      }
+    }
+  });
+
+  it("should serve OData queries through the adapters", async () => {
+    const db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE people (id INTEGER PRIMARY KEY, name TEXT, age INTEGER, city TEXT);
+      INSERT INTO people (name, age, city) VALUES
+        ('Ann', 34, 'NY'), ('Bob', 17, 'NY'), ('Cid', 45, 'LA'), ('Dee', 52, 'SF');
+    `);
+    const adapter = createWebAdapter(
+      {
+        dialect: "sqlite",
+        validation: defaultValidationOptions,
+        driver: createSqliteDriver(db),
+      },
+      { queryFormat: "odata" }
+    );
+    const url = (query: string) =>
+      new Request(`http://test.com/people?${encodeURI(query)}`);
+
+    const rows = await adapter.execute(
+      url(
+        "$filter=age gt 18 and (city eq 'NY' or city eq 'LA')&$select=name&$orderby=age desc"
+      )
+    );
+    expect(rows.rows).toEqual([{ name: "Cid" }, { name: "Ann" }]);
+
+    const count = await adapter.execute(url("$filter=age gt 18&$count=true"));
+    expect(count.rows).toEqual([{ count: 3 }]);
+    db.close();
+  });
+});
@@ -0,0 +1,87 @@
+import Fastify from "fastify";
+import Database = require("better-sqlite3");
+import { createRestQL, ValidationError } from "..";
+import { createFastifyAdapter } from "../adapters/fastify";
+import { createSqliteDriver } from "../drivers";
+import { PaginationConfig } from "../types";
+
+describe("Page size limits", () => {
+  const pagination: PaginationConfig = {
+    defaultLimit: 20,
+    maxLimit: 100,
+    maxOffset: 1000,
+    tables: { events: { maxLimit: 10 } },
+  };
+  const restql = createRestQL({ dialect: "postgres", pagination });
+
+  function limitOf(path: string, query: Record<string, any> = {}) {
+    return restql.toSQL({ method: "GET", path, query }).meta?.limit;
+  }
+
+  it("should apply the default limit and lower large ones", () => {
+    expect(restql.toSQL({ method: "GET", path: "/users" })).toEqual({
+      sql: 'SELECT * FROM "users" LIMIT 20',
+      params: [],
+      meta: { limit: 20 },
+    });
+    expect(limitOf("/users", { limit: 50 })).toBe(50);
+    expect(limitOf("/users", { limit: 500 })).toBe(100);
+  });
+
+  it("should apply per-table overrides", () => {
+    expect(limitOf("/events")).toBe(10);
+    expect(limitOf("/events", { limit: 50 })).toBe(10);
+    expect(limitOf("/events", { limit: 5 })).toBe(5);
+  });
+
+  it("should reject offsets above maxOffset", () => {
+    expect(() =>
+      restql.toSQL({ method: "GET", path: "/users", query: { offset: 1001 } })
+    ).toThrow(ValidationError);
+    try {
+      restql.toSQL({ method: "GET", path: "/users", query: { offset: 5000 } });
+    } catch (error) {
+      expect(error).toMatchObject({
+        code: "INVALID_PAGINATION",
+        path: "offset",
+        message: "Offset must not exceed 1000",
+      });
+    }
+    expect(limitOf("/users", { offset: 1000 })).toBe(20);
+  });
+
+  it("should leave single rows and writes alone", () => {
+    expect(restql.toSQL({ method: "GET", path: "/users/1" })).toEqual({
+      sql: 'SELECT * FROM "users" WHERE "id" = $1 LIMIT 1',
+      params: ["1"],
+    });
+    expect(
+      restql.toSQL({ method: "DELETE", path: "/users/1" }).meta
+    ).toBeUndefined();
+  });
+
+  it("should tell clients the effective limit", async () => {
+    const db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE events (id INTEGER PRIMARY KEY);
+      WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 15)
+      INSERT INTO events (id) SELECT i FROM n;
+    `);
+    const app = Fastify();
+    await app.register(
+      createFastifyAdapter({
+        dialect: "sqlite",
+        driver: createSqliteDriver(db),
+        pagination,
+      }).plugin()
+    );
+
+    const response = await app.inject({ method: "GET", url: "/events" });
+    const body = response.json();
+    expect(body.limit).toBe(10);
+    expect(body.data).toHaveLength(10);
+
+    await app.close();
+    db.close();
+  });
+});
@@ -0,0 +1,327 @@
+import {
+  createRestQL,
+  ForbiddenError,
+  PermissionsConfig,
+  RestQLError,
+  ValidationError,
+} from "..";
+import { createWebAdapter } from "../adapters/web";
+import { RestQLRequest } from "../types";
+
+describe("Permissions", () => {
+  const permissions: PermissionsConfig = {
+    anonymousRole: "anonymous",
+    tables: {
+      users: {
+        admin: { operations: ["CREATE", "READ", "UPDATE", "DELETE"] },
+        member: {
+          operations: ["READ", "UPDATE"],
+          readable: ["id", "name", "email"],
+          filterable: ["name"],
+          sortable: ["name"],
+          writable: ["name"],
+        },
+        anonymous: { operations: ["READ"], readable: ["id", "name"] },
+      },
+      orders: {
+        admin: { operations: ["READ"] },
+        member: { operations: ["READ"], readable: ["id", "total"] },
+      },
+    },
+  };
+  const restql = createRestQL({ dialect: "postgres", permissions });
+
+  const admin = { role: "admin" };
+  const member = { role: "member", id: 7 };
+
+  function rejection(request: RestQLRequest): RestQLError {
+    try {
+      restql.toSQL(request);
+    } catch (error) {
+      return error as RestQLError;
+    }
+    throw new Error("Expected the request to be rejected");
+  }
+
+  it("should allow what the role grants", () => {
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        principal: member,
+        query: {
+          select: ["id", "name"],
+          where: { field: "name", operator: "=", value: "Ann" },
+          orderBy: [{ field: "name", direction: "ASC" }],
+        },
+      }).sql
+    ).toBe(
+      'SELECT "id", "name" FROM "users" WHERE "name" = $1 ORDER BY "name" ASC'
+    );
+    expect(
+      restql.toSQL({
+        method: "DELETE",
+        path: "/users/1",
+        principal: admin,
+      }).sql
+    ).toBe('DELETE FROM "users" WHERE "id" = $1');
+  });
+
+  it("should only exempt aggregate aliases from filter and sort checks", () => {
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        principal: member,
+        query: {
+          select: ["name", { fn: "count", field: "id", as: "total" }],
+          groupBy: ["name"],
+          having: [{ field: "total", operator: ">", value: 1 }],
+          orderBy: [{ field: "total", direction: "DESC" }],
+        },
+      }).sql
+    ).toBe(
+      'SELECT "name", COUNT("id") AS "total" FROM "users" GROUP BY "name" HAVING COUNT("id") > $1 ORDER BY "total" DESC'
+    );
+    // A plain alias named like a column would filter on that column
+    const having = rejection({
+      method: "GET",
+      path: "/users",
+      principal: member,
+      query: {
+        select: ["id", { field: "name", as: "email" }],
+        groupBy: ["id"],
+        having: [{ field: "email", operator: "=", value: "a" }],
+      },
+    });
+    expect(having.message).toBe(
+      'Column "email" is not filterable for role "member"'
+    );
+    expect(
+      rejection({
+        method: "GET",
+        path: "/users",
+        principal: member,
+        query: {
+          select: [{ field: "name", as: "email" }],
+          orderBy: [{ field: "email", direction: "ASC" }],
+        },
+      }).message
+    ).toBe('Column "email" is not sortable for role "member"');
+  });
+
+  it("should deny operations and tables the role lacks", () => {
+    const operation = rejection({
+      method: "DELETE",
+      path: "/users/1",
+      principal: member,
+    });
+    expect(operation).toBeInstanceOf(ForbiddenError);
+    expect(operation).not.toBeInstanceOf(ValidationError);
+    expect(operation.message).toBe(
+      'Role "member" may not DELETE table "users"'
+    );
+    expect(operation.toProblem()).toMatchObject({
+      status: 403,
+      title: "Forbidden",
+      code: "FORBIDDEN",
+    });
+
+    expect(
+      rejection({
+        method: "GET",
+        path: "/orders",
+        principal: { role: "guest" },
+      }).message
+    ).toBe('Role "guest" has no access to table "orders"');
+    expect(rejection({ method: "GET", path: "/orders" }).message).toBe(
+      'Role "anonymous" has no access to table "orders"'
+    );
+  });
+
+  it("should require UPDATE for upserts that merge", () => {
+    const inserter = createRestQL({
+      dialect: "postgres",
+      permissions: {
+        tables: { users: { writer: { operations: ["CREATE"] } } },
+      },
+    });
+    const principal = { role: "writer" };
+
+    expect(() =>
+      inserter.toSQL({
+        method: "POST",
+        path: "/users",
+        body: { id: 1, name: "Ann" },
+        headers: { prefer: "resolution=merge-duplicates" },
+        principal,
+      })
+    ).toThrow(
+      new ForbiddenError('Role "writer" may not UPDATE table "users"', {
+        path: "onConflict",
+      })
+    );
+    expect(
+      inserter.toSQL({
+        method: "POST",
+        path: "/users",
+        body: { id: 1, name: "Ann" },
+        headers: { prefer: "resolution=ignore-duplicates" },
+        principal,
+      }).sql
+    ).toBe(
+      'INSERT INTO "users" ("id", "name") VALUES ($1, $2) ON CONFLICT ("id") DO NOTHING'
+    );
+  });
+
+  it("should check each column for the way it is used", () => {
+    const cases: [RestQLRequest, string, string][] = [
+      [
+        { method: "GET", path: "/users", query: { select: ["password"] } },
+        'Column "password" is not readable for role "member"',
+        "select[0]",
+      ],
+      [
+        {
+          method: "GET",
+          path: "/users",
+          query: {
+            where: [
+              {
+                operator: "OR",
+                conditions: [
+                  { field: "name", operator: "=", value: "Ann" },
+                  { field: "email", operator: "=", value: "a" },
+                ],
+              },
+            ],
+          },
+        },
+        'Column "email" is not filterable for role "member"',
+        "where[0].conditions[1].field",
+      ],
+      [
+        {
+          method: "GET",
+          path: "/users",
+          query: { orderBy: [{ field: "email", direction: "ASC" }] },
+        },
+        'Column "email" is not sortable for role "member"',
+        "orderBy[0].field",
+      ],
+      [
+        { method: "PUT", path: "/users/7", body: { email: "x" } },
+        'Column "email" is not writable for role "member"',
+        "values[0].email",
+      ],
+      [
+        {
+          method: "PUT",
+          path: "/users/7",
+          body: { name: "x" },
+          query: { returning: ["password"] },
+        },
+        'Column "password" is not readable for role "member"',
+        "returning[0]",
+      ],
+      [
+        {
+          method: "GET",
+          path: "/users",
+          query: {
+            select: ["id"],
+            where: { field: "main.users.ssn", operator: "LIKE", value: "1%" },
+          },
+        },
+        'Column "main.users.ssn" is not on a table of the request',
+        "where.field",
+      ],
+      [
+        {
+          method: "GET",
+          path: "/users",
+          query: { select: ["secrets.value"] },
+        },
+        'Column "secrets.value" is not on a table of the request',
+        "select[0]",
+      ],
+    ];
+    for (const [request, message, path] of cases) {
+      const error = rejection({ ...request, principal: member });
+      expect(error).toBeInstanceOf(ForbiddenError);
+      expect(error.message).toBe(message);
+      expect(error.path).toBe(path);
+    }
+  });
+
+  it("should address rows by primary key without filter permissions", () => {
+    expect(
+      restql.toSQL({
+        method: "PUT",
+        path: "/users/7",
+        body: { name: "Ann" },
+        principal: member,
+      })
+    ).toEqual({
+      sql: 'UPDATE "users" SET "name" = $1 WHERE "id" = $2',
+      params: ["Ann", "7"],
+    });
+  });
+
+  it("should narrow * to the readable columns", () => {
+    expect(
+      restql.toSQL({ method: "GET", path: "/users", principal: member }).sql
+    ).toBe('SELECT "id", "name", "email" FROM "users"');
+
+    const joined = {
+      select: ["*"],
+      joins: [
+        {
+          type: "INNER" as const,
+          table: "orders",
+          on: [{ field: "orders.user_id", operator: "=", value: "users.id" }],
+        },
+      ],
+    };
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        principal: admin,
+        query: joined,
+      }).sql
+    ).toMatch(/^SELECT \* FROM "users" INNER JOIN "orders"/);
+    expect(
+      restql.toSQL({
+        method: "GET",
+        path: "/users",
+        principal: member,
+        query: joined,
+      }).sql
+    ).toMatch(
+      /^SELECT "users"."id", "users"."name", "users"."email", "orders"."id", "orders"."total" FROM/
+    );
+  });
+
+  it("should resolve the principal in the adapters", async () => {
+    const adapter = createWebAdapter(
+      { dialect: "postgres", permissions },
+      {
+        principal: (req) => {
+          const role = req.headers.get("x-role");
+          return role ? { role } : undefined;
+        },
+      }
+    );
+    await expect(
+      adapter.toSQL(
+        new Request("http://test.com/orders", {
+          headers: { "x-role": "member" },
+        })
+      )
+    ).resolves.toMatchObject({ sql: 'SELECT "id", "total" FROM "orders"' });
+    await expect(
+      adapter.toSQL(new Request("http://test.com/orders"))
+    ).rejects.toThrow(ForbiddenError);
+  });
+});
@@ -0,0 +1,267 @@
+import Database = require("better-sqlite3");
+import { createRestQL, ForbiddenError, RowPolicy } from "..";
+import { createSqliteDriver } from "../drivers";
+
+describe("Row-level security", () => {
+  const tenant: RowPolicy = ({ principal }) =>
+    principal?.role === "admin"
+      ? undefined
+      : { field: "tenant_id", operator: "=", value: principal?.tenantId };
+  const policies = { projects: tenant, tasks: tenant };
+  const acme = { role: "member", tenantId: 1 };
+
+  describe("SQL", () => {
+    const restql = createRestQL({ dialect: "postgres", policies });
+
+    it("should AND the policy in front of the client's where", () => {
+      expect(
+        restql.toSQL({
+          method: "GET",
+          path: "/projects",
+          principal: acme,
+          query: {
+            where: {
+              operator: "OR",
+              conditions: [
+                { field: "name", operator: "=", value: "a" },
+                { field: "tenant_id", operator: "=", value: 2 },
+              ],
+            },
+          },
+        })
+      ).toEqual({
+        sql: 'SELECT * FROM "projects" WHERE "tenant_id" = $1 AND ("name" = $2 OR "tenant_id" = $3)',
+        params: [1, "a", 2],
+      });
+    });
+
+    it("should restrict joined tables in their join conditions", () => {
+      const { sql } = restql.toSQL({
+        method: "GET",
+        path: "/projects",
+        principal: acme,
+        query: {
+          select: ["projects.name", "t.title"],
+          joins: [
+            {
+              type: "LEFT",
+              table: "tasks",
+              alias: "t",
+              on: [
+                { field: "t.project_id", operator: "=", value: "projects.id" },
+              ],
+            },
+          ],
+        },
+      });
+      expect(sql).toBe(
+        'SELECT "projects"."name", "t"."title" FROM "projects" LEFT JOIN "tasks" AS "t" ON "t"."project_id" = "projects"."id" AND "t"."tenant_id" = $1 WHERE "projects"."tenant_id" = $2'
+      );
+    });
+
+    it("should reject RIGHT and FULL joins to tables with a policy", () => {
+      const join = (type: "RIGHT" | "FULL", table: string) =>
+        restql.toSQL({
+          method: "GET",
+          path: "/projects",
+          principal: acme,
+          query: {
+            joins: [
+              {
+                type,
+                table,
+                on: [
+                  {
+                    field: `${table}.project_id`,
+                    operator: "=",
+                    value: "projects.id",
+                  },
+                ],
+              },
+            ],
+          },
+        });
+      expect(() => join("RIGHT", "tasks")).toThrow(
+        new ForbiddenError(
+          'RIGHT joins to table "tasks" can\'t be restricted by its row policy'
+        )
+      );
+      expect(() => join("FULL", "tasks")).toThrow(ForbiddenError);
+      expect(join("FULL", "comments").sql).toBe(
+        'SELECT * FROM "projects" FULL JOIN "comments" ON "comments"."project_id" = "projects"."id" WHERE "projects"."tenant_id" = $1'
+      );
+    });
+
+    it("should restrict updates and deletes, single and bulk", () => {
+      expect(
+        restql.toSQL({
+          method: "PUT",
+          path: "/projects/5",
+          principal: acme,
+          body: { name: "b" },
+        })
+      ).toEqual({
+        sql: 'UPDATE "projects" SET "name" = $1 WHERE "tenant_id" = $2 AND "id" = $3',
+        params: ["b", 1, "5"],
+      });
+      expect(
+        restql.toSQL({
+          method: "PUT",
+          path: "/projects",
+          principal: acme,
+          body: [
+            { id: 1, name: "a" },
+            { id: 2, name: "b" },
+          ],
+        }).sql
+      ).toMatch(/WHERE "id" IN \(\$1, \$2\) AND "tenant_id" = \$5$/);
+      expect(
+        restql.toSQL({
+          method: "DELETE",
+          path: "/projects",
+          principal: acme,
+          body: [{ id: 1 }],
+        }).sql
+      ).toBe(
+        'DELETE FROM "projects" WHERE "tenant_id" = $1 AND "id" = ANY($2)'
+      );
+    });
+
+    it("should leave requests alone when the policy returns nothing", () => {
+      expect(
+        restql.toSQL({
+          method: "GET",
+          path: "/projects",
+          principal: { role: "admin" },
+        }).sql
+      ).toBe('SELECT * FROM "projects"');
+    });
+
+    it("should reject writes that leave the policy", () => {
+      expect(() =>
+        restql.toSQL({
+          method: "POST",
+          path: "/projects",
+          principal: acme,
+          body: { name: "x", tenant_id: 2 },
+        })
+      ).toThrow(ForbiddenError);
+      expect(() =>
+        restql.toSQL({
+          method: "PUT",
+          path: "/projects/5",
+          principal: acme,
+          body: { tenant_id: 2 },
+        })
+      ).toThrow('Column "tenant_id" must be 1');
+
+      const ranged = createRestQL({
+        dialect: "postgres",
+        policies: {
+          projects: () => ({ field: "tenant_id", operator: "IN", value: [1] }),
+        },
+      });
+      expect(() =>
+        ranged.toSQL({ method: "POST", path: "/projects", body: { name: "x" } })
+      ).toThrow(
+        `The row policy of table "projects" can't be enforced on insert`
+      );
+      expect(() =>
+        ranged.toSQL({
+          method: "PATCH",
+          path: "/projects/5",
+          body: { tenant_id: 99 },
+        })
+      ).toThrow(
+        new ForbiddenError(
+          `Column "tenant_id" can't be written under the row policy of table "projects"`
+        )
+      );
+      expect(
+        ranged.toSQL({
+          method: "PATCH",
+          path: "/projects/5",
+          body: { name: "y" },
+        }).sql
+      ).toBe(
+        'UPDATE "projects" SET "name" = $1 WHERE "tenant_id" = ANY($2) AND "id" = $3'
+      );
+    });
+
+    it("should not merge upserts into rows outside the policy on MySQL", () => {
+      const mysql = createRestQL({ dialect: "mysql", policies });
+      expect(() =>
+        mysql.toSQL({
+          method: "POST",
+          path: "/projects",
+          principal: acme,
+          body: { id: 1, name: "x" },
+          query: { onConflict: { action: "merge" } },
+        })
+      ).toThrow("onConflict merge can't enforce row policies on MySQL");
+    });
+  });
+
+  describe("SQLite", () => {
+    let db: Database.Database;
+    let restql: ReturnType<typeof createRestQL>;
+
+    beforeEach(() => {
+      db = new Database(":memory:");
+      db.exec(`
+        CREATE TABLE projects (id INTEGER PRIMARY KEY, tenant_id INTEGER NOT NULL, name TEXT);
+        INSERT INTO projects (tenant_id, name) VALUES (1, 'ours'), (2, 'theirs');
+      `);
+      restql = createRestQL({
+        dialect: "sqlite",
+        driver: createSqliteDriver(db),
+        policies,
+      });
+    });
+
+    afterEach(() => db.close());
+
+    it("should isolate tenants end to end", async () => {
+      const read = await restql.execute({
+        method: "GET",
+        path: "/projects",
+        principal: acme,
+      });
+      expect(read.rows).toEqual([{ id: 1, tenant_id: 1, name: "ours" }]);
+
+      const deleted = await restql.execute({
+        method: "DELETE",
+        path: "/projects/2",
+        principal: acme,
+      });
+      expect(deleted.rowCount).toBe(0);
+
+      await restql.execute({
+        method: "POST",
+        path: "/projects",
+        principal: acme,
+        body: { name: "new" },
+      });
+      expect(
+        db.prepare("SELECT tenant_id FROM projects WHERE name = 'new'").get()
+      ).toEqual({ tenant_id: 1 });
+    });
+
+    it("should only merge upserts into rows the policy allows", async () => {
+      const upsert = (id: number) =>
+        restql.execute({
+          method: "POST",
+          path: "/projects",
+          principal: acme,
+          body: { id, name: "merged" },
+          query: { onConflict: { action: "merge" } },
+        });
+
+      await upsert(1);
+      await upsert(2);
+      expect(db.prepare("SELECT name FROM projects ORDER BY id").all()).toEqual(
+        [{ name: "merged" }, { name: "theirs" }]
+      );
+    });
+  });
+});
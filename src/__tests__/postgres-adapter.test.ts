@@ -340,6 +340,77 @@ describe("Web Adapter", () => {
     });
   });
 
+  describe("Special operators", () => {
+    it("should bind IN lists as a single array parameter", async () => {
+      const req = createRequest("/users", {
+        query: {
+          where: {
+            field: "status",
+            operator: "IN",
+            value: ["active", "pending"],
+          },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toBe('SELECT * FROM "users" WHERE "status" = ANY($1)');
+      expect(result.params).toEqual([["active", "pending"]]);
+    });
+
+    it("should render NOT IN with ALL", async () => {
+      const req = createRequest("/users", {
+        query: {
+          where: { field: "id", operator: "NOT IN", value: [1, 2, 3] },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toMatch(/WHERE "id" <> ALL\(\$1\)/);
+      expect(result.params).toEqual([[1, 2, 3]]);
+    });
+
+    it("should render BETWEEN with two parameters", async () => {
+      const req = createRequest("/users", {
+        query: {
+          where: {
+            operator: "AND",
+            conditions: [
+              { field: "age", operator: "BETWEEN", value: [18, 30] },
+              { field: "status", operator: "=", value: "active" },
+            ],
+          },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toMatch(
+        /WHERE "age" BETWEEN \$1 AND \$2 AND "status" = \$3/
+      );
+      expect(result.params).toEqual([18, 30, "active"]);
+    });
+
+    it("should render null checks without parameters", async () => {
+      const req = createRequest("/users", {
+        query: {
+          where: {
+            operator: "AND",
+            conditions: [
+              { field: "deleted_at", operator: "IS NULL" },
+              { field: "email", operator: "IS NOT NULL", value: null },
+              { field: "age", operator: ">", value: 18 },
+            ],
+          },
+        },
+      });
+
+      const result = await adapter.toSQL(req);
+      expect(result.sql).toMatch(
+        /WHERE "deleted_at" IS NULL AND "email" IS NOT NULL AND "age" > \$1/
+      );
+      expect(result.params).toEqual([18]);
+    });
+  });
+
   describe("Mutations", () => {
     it("should handle INSERT", async () => {
       const req = createRequest("/users", {
@@ -0,0 +1,140 @@
+import { Request as ExpressRequest } from "express";
+import { defaultValidationOptions, parsePostgrestQuery } from "..";
+import { createExpressAdapter } from "../adapters/express";
+import { createWebAdapter } from "../adapters/web";
+import { QueryValidationError } from "../queryValidator";
+
+describe("PostgREST query format", () => {
+  function parse(query: string) {
+    return parsePostgrestQuery(new URLSearchParams(query));
+  }
+
+  it("should parse select, filters, order and pagination", () => {
+    expect(
+      parse(
+        "select=id,name&age=gt.18&status=in.(active,pending)&order=created_at.desc,name&limit=10&offset=20"
+      )
+    ).toEqual({
+      select: ["id", "name"],
+      where: [
+        { field: "age", operator: ">", value: "18" },
+        { field: "status", operator: "IN", value: ["active", "pending"] },
+      ],
+      orderBy: [
+        { field: "created_at", direction: "DESC" },
+        { field: "name", direction: "ASC" },
+      ],
+      limit: 10,
+      offset: 20,
+    });
+  });
+
+  it("should parse aliases and aggregates in select", () => {
+    expect(parse("select=author:user_id,total:amount.sum(),count()")).toEqual({
+      select: [
+        { field: "user_id", as: "author" },
+        { fn: "sum", field: "amount", as: "total" },
+        { fn: "count", field: "*" },
+      ],
+    });
+  });
+
+  it("should parse embedded tables in select", () => {
+    expect(parse("select=id,orders(id,items(*))").select).toEqual([
+      "id",
+      { orders: ["id", { items: ["*"] }] },
+    ]);
+    expect(() => parse("select=o:orders(id)")).toThrow(
+      'Embedded table "orders" can\'t be aliased'
+    );
+  });
+
+  it("should parse negations, null checks and patterns", () => {
+    expect(
+      parse(
+        'deleted_at=is.null&name=not.like.*son&role=not.in.(admin,"a,b")&active=is.true'
+      ).where
+    ).toEqual([
+      { field: "deleted_at", operator: "IS NULL", value: null },
+      { field: "name", operator: "NOT LIKE", value: "%son" },
+      { field: "role", operator: "NOT IN", value: ["admin", "a,b"] },
+      { field: "active", operator: "=", value: true },
+    ]);
+  });
+
+  it("should parse nested logical groups", () => {
+    expect(
+      parse(
+        "or=(age.lt.18,and(status.eq.active,score.gte.50))&not.and=(a.eq.1)"
+      ).where
+    ).toEqual([
+      {
+        operator: "OR",
+        conditions: [
+          { field: "age", operator: "<", value: "18" },
+          {
+            operator: "AND",
+            conditions: [
+              { field: "status", operator: "=", value: "active" },
+              { field: "score", operator: ">=", value: "50" },
+            ],
+          },
+        ],
+      },
+      {
+        operator: "AND",
+        conditions: [{ field: "a", operator: "=", value: "1" }],
+        not: true,
+      },
+    ]);
+  });
+
+  it("should reject malformed parameters with their path", () => {
+    const cases: [string, string, string][] = [
+      ["age=18", "INVALID_QUERY", "age"],
+      ["name=ilike.ann", "OPERATOR_NOT_ALLOWED", "name"],
+      ["limit=ten", "INVALID_PAGINATION", "limit"],
+      ["or=(age.gt.1,oops)", "INVALID_QUERY", "or[1]"],
+      ["order=name.desc.nullslast", "INVALID_QUERY", "order[0]"],
+    ];
+    for (const [query, code, path] of cases) {
+      try {
+        parse(query);
+        throw new Error(`Expected "${query}" to be rejected`);
+      } catch (error) {
+        expect(error).toBeInstanceOf(QueryValidationError);
+        expect(error).toMatchObject({ code, path });
+      }
+    }
+  });
+
+  it("should build SQL through the adapters", async () => {
+    const web = createWebAdapter(
+      { dialect: "postgres", validation: defaultValidationOptions },
+      { queryFormat: "postgrest" }
+    );
+    const result = await web.toSQL(
+      new Request(
+        "http://test.com/users?select=id,name&age=gt.18&status=in.(active,pending)&order=created_at.desc&limit=10"
+      )
+    );
+    expect(result.sql).toBe(
+      'SELECT "id", "name" FROM "users" WHERE "age" > $1 AND "status" = ANY($2) ORDER BY "created_at" DESC LIMIT 10'
+    );
+    expect(result.params).toEqual(["18", ["active", "pending"]]);
+
+    const express = createExpressAdapter(
+      { dialect: "mysql" },
+      { queryFormat: "postgrest" }
+    );
+    const req = {
+      method: "GET",
+      path: "/users",
+      query: { name: "eq.Ann", or: "(a.eq.1,b.eq.2)" },
+    } as unknown as ExpressRequest;
+    await expect(express.toSQL(req)).resolves.toEqual({
+      sql: "SELECT * FROM `users` WHERE `name` = ? AND (`a` = ? OR `b` = ?)",
+      params: ["Ann", "1", "2"],
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { createRestQL } from "..";
+import { ValidationError } from "../validation";
+import { SchemaConfig } from "../types";
+
+describe("Primary keys", () => {
+  const schema: SchemaConfig = {
+    tables: {
+      products: {
+        columns: { uuid: "uuid", name: "string", price: "float" },
+        primaryKey: "uuid",
+      },
+      inventory: {
+        columns: { tenant_id: "string", sku: "string", quantity: "int" },
+        primaryKey: ["tenant_id", "sku"],
+      },
+    },
+  };
+  const postgres = createRestQL({ dialect: "postgres", schema });
+  const mysql = createRestQL({ dialect: "mysql", schema });
+
+  describe("single-column keys", () => {
+    it("should read a row by its configured key", () => {
+      const result = postgres.toSQL({
+        method: "GET",
+        path: "/products/5f0c6c2e-7d1a-4e8b-9b1e-2f3a4b5c6d7e",
+        query: {},
+      });
+      expect(result.sql).toBe(
+        'SELECT "uuid", "name", "price" FROM "products" WHERE "uuid" = $1 LIMIT 1'
+      );
+      expect(result.params).toEqual(["5f0c6c2e-7d1a-4e8b-9b1e-2f3a4b5c6d7e"]);
+    });
+
+    it("should update a row by its configured key", () => {
+      const result = postgres.toSQL({
+        method: "PATCH",
+        path: "/products/5f0c6c2e-7d1a-4e8b-9b1e-2f3a4b5c6d7e",
+        body: { price: 10 },
+      });
+      expect(result.sql).toBe(
+        'UPDATE "products" SET "price" = $1 WHERE "uuid" = $2'
+      );
+      expect(result.params).toEqual([
+        10,
+        "5f0c6c2e-7d1a-4e8b-9b1e-2f3a4b5c6d7e",
+      ]);
+    });
+
+    it("should bulk update rows by their configured key", () => {
+      const result = postgres.toSQL({
+        method: "PATCH",
+        path: "/products",
+        body: [
+          { uuid: "0b9f8a4e-1c2d-4e5f-8a9b-0c1d2e3f4a5b", price: 1 },
+          { uuid: "7d6c5b4a-3e2f-4a1b-9c8d-7e6f5a4b3c2d", price: 2 },
+        ],
+      });
+      expect(result.sql).toBe(
+        'UPDATE "products" SET "price" = CASE WHEN "uuid" = $1 THEN $3 WHEN "uuid" = $2 THEN $4 ELSE "price" END WHERE "uuid" IN ($1, $2)'
+      );
+      expect(result.params).toEqual([
+        "0b9f8a4e-1c2d-4e5f-8a9b-0c1d2e3f4a5b",
+        "7d6c5b4a-3e2f-4a1b-9c8d-7e6f5a4b3c2d",
+        1,
+        2,
+      ]);
+    });
+
+    it("should bulk delete rows by their configured key", () => {
+      const result = mysql.toSQL({
+        method: "DELETE",
+        path: "/products",
+        body: [
+          { uuid: "0b9f8a4e-1c2d-4e5f-8a9b-0c1d2e3f4a5b" },
+          { uuid: "7d6c5b4a-3e2f-4a1b-9c8d-7e6f5a4b3c2d" },
+        ],
+      });
+      expect(result.sql).toBe("DELETE FROM `products` WHERE `uuid` IN (?, ?)");
+      expect(result.params).toEqual([
+        "0b9f8a4e-1c2d-4e5f-8a9b-0c1d2e3f4a5b",
+        "7d6c5b4a-3e2f-4a1b-9c8d-7e6f5a4b3c2d",
+      ]);
+    });
+  });
+
+  describe("composite keys", () => {
+    it("should read a row by a comma separated key", () => {
+      const result = postgres.toSQL({
+        method: "GET",
+        path: "/inventory/acme,SKU-1",
+        query: {},
+      });
+      expect(result.sql).toMatch(
+        /WHERE "tenant_id" = \$1 AND "sku" = \$2 LIMIT 1$/
+      );
+      expect(result.params).toEqual(["acme", "SKU-1"]);
+    });
+
+    it("should decode key values", () => {
+      const result = postgres.toSQL({
+        method: "DELETE",
+        path: "/inventory/acme,SKU%2C2",
+      });
+      expect(result.sql).toBe(
+        'DELETE FROM "inventory" WHERE "tenant_id" = $1 AND "sku" = $2'
+      );
+      expect(result.params).toEqual(["acme", "SKU,2"]);
+    });
+
+    it("should update a row without touching key columns", () => {
+      const result = mysql.toSQL({
+        method: "PUT",
+        path: "/inventory/acme,SKU-1",
+        body: { quantity: 5 },
+      });
+      expect(result.sql).toBe(
+        "UPDATE `inventory` SET `quantity` = ? WHERE `tenant_id` = ? AND `sku` = ?"
+      );
+      expect(result.params).toEqual([5, "acme", "SKU-1"]);
+    });
+
+    it("should bulk update rows matching every key column", () => {
+      const result = mysql.toSQL({
+        method: "PUT",
+        path: "/inventory",
+        body: [
+          { tenant_id: "acme", sku: "A", quantity: 1 },
+          { tenant_id: "acme", sku: "B", quantity: 2 },
+        ],
+      });
+      expect(result.sql).toBe(
+        "UPDATE `inventory` SET `quantity` = CASE WHEN `tenant_id` = ? AND `sku` = ? THEN ? WHEN `tenant_id` = ? AND `sku` = ? THEN ? ELSE `quantity` END WHERE (`tenant_id` = ? AND `sku` = ?) OR (`tenant_id` = ? AND `sku` = ?)"
+      );
+      expect(result.params).toEqual([
+        "acme",
+        "A",
+        1,
+        "acme",
+        "B",
+        2,
+        "acme",
+        "A",
+        "acme",
+        "B",
+      ]);
+    });
+
+    it("should bulk delete rows matching every key column", () => {
+      const result = postgres.toSQL({
+        method: "DELETE",
+        path: "/inventory",
+        body: [
+          { tenant_id: "acme", sku: "A" },
+          { tenant_id: "globex", sku: "B" },
+        ],
+      });
+      expect(result.sql).toBe(
+        'DELETE FROM "inventory" WHERE (("tenant_id" = $1 AND "sku" = $2) OR ("tenant_id" = $3 AND "sku" = $4))'
+      );
+      expect(result.params).toEqual(["acme", "A", "globex", "B"]);
+    });
+
+    it("should reject keys with the wrong number of values", () => {
+      expect(() =>
+        postgres.toSQL({ method: "GET", path: "/inventory/acme", query: {} })
+      ).toThrow(ValidationError);
+      expect(() =>
+        postgres.toSQL({ method: "GET", path: "/inventory/acme", query: {} })
+      ).toThrow("Expected 2 key values for primary key (tenant_id, sku)");
+    });
+  });
+});
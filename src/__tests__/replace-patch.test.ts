@@ -0,0 +1,204 @@
+import Fastify from "fastify";
+import Database = require("better-sqlite3");
+import { createRestQL, SchemaConfig, SchemaError, ValidationError } from "..";
+import { createFastifyAdapter } from "../adapters/fastify";
+import { createSqliteDriver } from "../drivers";
+import { encodeQuery } from "../formats";
+
+describe("PUT replacement and PATCH", () => {
+  const schema: SchemaConfig = {
+    tables: {
+      users: {
+        columns: {
+          id: "int",
+          name: { type: "string", nullable: false },
+          status: { type: "string", default: "active" },
+          bio: "string",
+          created_at: { type: "date", readOnly: true },
+        },
+      },
+    },
+  };
+  const restql = createRestQL({ dialect: "postgres", schema });
+
+  it("should update only the supplied columns on PATCH", () => {
+    expect(
+      restql.toSQL({ method: "PATCH", path: "/users/7", body: { bio: "Hi" } })
+    ).toEqual({
+      sql: 'UPDATE "users" SET "bio" = $1 WHERE "id" = $2',
+      params: ["Hi", "7"],
+    });
+  });
+
+  it("should reject updates that leave no columns to set", () => {
+    const missing = new ValidationError("No values provided for update", {
+      code: "MISSING_VALUES",
+    });
+    expect(() =>
+      restql.toSQL({ method: "PATCH", path: "/users/7", body: {} })
+    ).toThrow(missing);
+    expect(() =>
+      restql.toSQL({ method: "PATCH", path: "/users/7", body: { id: 7 } })
+    ).toThrow(missing);
+    expect(() =>
+      restql.toSQL({
+        method: "PATCH",
+        path: "/users",
+        body: [{ id: 1 }, { id: 2 }],
+      })
+    ).toThrow(missing);
+  });
+
+  it("should reset omitted columns on PUT", () => {
+    expect(
+      restql.toSQL({ method: "PUT", path: "/users/7", body: { name: "Ann" } })
+    ).toEqual({
+      sql: 'UPDATE "users" SET "name" = $1, "status" = $2, "bio" = $3 WHERE "id" = $4',
+      params: ["Ann", "active", null, "7"],
+    });
+    expect(
+      restql.toSQL({
+        method: "PUT",
+        path: "/users",
+        body: [
+          { id: 1, name: "Ann", bio: "Hi" },
+          { id: 2, name: "Bob" },
+        ],
+      }).sql
+    ).toBe(
+      'UPDATE "users" SET ' +
+        '"name" = CASE WHEN "id" = $1 THEN $3 WHEN "id" = $2 THEN $4 ELSE "name" END, ' +
+        '"bio" = CASE WHEN "id" = $1 THEN $5 WHEN "id" = $2 THEN $6 ELSE "bio" END, ' +
+        '"status" = CASE WHEN "id" = $1 THEN $7 WHEN "id" = $2 THEN $8 ELSE "status" END ' +
+        'WHERE "id" IN ($1, $2)'
+    );
+  });
+
+  it("should reject PUT bodies missing required columns and read-only columns", () => {
+    expect(() =>
+      restql.toSQL({ method: "PUT", path: "/users/7", body: { bio: "Hi" } })
+    ).toThrow(
+      new SchemaError('Column "name" is required to replace a row', {
+        code: "INVALID_VALUE",
+        path: "values[0].name",
+      })
+    );
+    expect(() =>
+      restql.toSQL({
+        method: "PATCH",
+        path: "/users/7",
+        body: { created_at: "2024-01-01" },
+      })
+    ).toThrow('Column "created_at" is read-only');
+  });
+
+  it("should update the rows matching a where on a collection PATCH", () => {
+    expect(
+      restql.toSQL({
+        method: "PATCH",
+        path: "/users",
+        body: { status: "inactive" },
+        query: { where: { field: "bio", operator: "IS NULL" } },
+      })
+    ).toEqual({
+      sql: 'UPDATE "users" SET "status" = $1 WHERE "bio" IS NULL',
+      params: ["inactive"],
+    });
+  });
+
+  it("should not reset columns the role can't write or the policy constrains", () => {
+    const secured = createRestQL({
+      dialect: "postgres",
+      schema: {
+        tables: {
+          notes: {
+            columns: {
+              id: "int",
+              owner_id: "int",
+              title: "string",
+              body: "string",
+              pinned: { type: "boolean", default: false },
+            },
+          },
+        },
+      },
+      permissions: {
+        tables: {
+          notes: {
+            member: {
+              operations: ["UPDATE"],
+              writable: ["owner_id", "title", "body"],
+            },
+          },
+        },
+      },
+      policies: {
+        notes: ({ principal }) => ({
+          field: "owner_id",
+          operator: "=",
+          value: principal?.id,
+        }),
+      },
+    });
+
+    expect(
+      secured.toSQL({
+        method: "PUT",
+        path: "/notes/5",
+        body: { title: "Todo" },
+        principal: { id: 3, role: "member" },
+      })
+    ).toEqual({
+      sql: 'UPDATE "notes" SET "title" = $1, "body" = $2 WHERE "owner_id" = $3 AND "id" = $4',
+      params: ["Todo", null, 3, "5"],
+    });
+  });
+
+  it("should serve PATCH through the adapters", async () => {
+    const db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, status TEXT, bio TEXT, created_at TEXT);
+      INSERT INTO users (name, status, bio) VALUES ('Ann', 'active', 'Hi'), ('Bob', 'active', NULL);
+    `);
+    const app = Fastify();
+    await app.register(
+      createFastifyAdapter({
+        dialect: "sqlite",
+        driver: createSqliteDriver(db),
+        schema,
+      }).plugin()
+    );
+
+    const patched = await app.inject({
+      method: "PATCH",
+      url: "/users",
+      query: {
+        q: encodeQuery({ where: { field: "bio", operator: "IS NULL" } }),
+      },
+      payload: { status: "inactive" },
+    });
+    expect(patched.statusCode).toBe(200);
+    expect(patched.json()).toEqual({ data: [], count: 1 });
+
+    const replaced = await app.inject({
+      method: "PUT",
+      url: "/users/1",
+      payload: { name: "Ann" },
+    });
+    expect(replaced.statusCode).toBe(200);
+    expect(db.prepare("SELECT name, status, bio FROM users").all()).toEqual([
+      { name: "Ann", status: "active", bio: null },
+      { name: "Bob", status: "inactive", bio: null },
+    ]);
+
+    const missing = await app.inject({
+      method: "PATCH",
+      url: "/users/9",
+      payload: { bio: "Hey" },
+    });
+    expect(missing.statusCode).toBe(404);
+
+    await app.close();
+    db.close();
+  });
+});
@@ -0,0 +1,232 @@
+import { createRestQL, defaultValidationOptions } from "..";
+import { createWebAdapter } from "../adapters/web";
+import { SQLBuilder } from "../sqlBuilder";
+import { ValidationError } from "../validation";
+import { QueryValidationError } from "../queryValidator";
+
+describe("RETURNING", () => {
+  const postgres = createRestQL({
+    dialect: "postgres",
+    validation: defaultValidationOptions,
+  });
+  const sqlite = createRestQL({ dialect: "sqlite" });
+  const mysql = createRestQL({ dialect: "mysql" });
+
+  describe("PostgreSQL and SQLite", () => {
+    it("should return inserted rows", () => {
+      const result = postgres.toSQL({
+        method: "POST",
+        path: "/users",
+        body: { name: "John" },
+        query: { returning: ["id", "name"] },
+      });
+      expect(result.sql).toBe(
+        'INSERT INTO "users" ("name") VALUES ($1) RETURNING "id", "name"'
+      );
+      expect(result.params).toEqual(["John"]);
+      expect(result.returning).toBeUndefined();
+    });
+
+    it("should return updated rows", () => {
+      const result = sqlite.toSQL({
+        method: "PUT",
+        path: "/users/1",
+        body: { name: "Jane" },
+        query: { returning: ["*"] },
+      });
+      expect(result.sql).toBe(
+        'UPDATE "users" SET "name" = ? WHERE "id" = ? RETURNING *'
+      );
+    });
+
+    it("should return deleted rows", () => {
+      const result = postgres.toSQL({
+        method: "DELETE",
+        path: "/users/1",
+        query: { returning: ["id"] },
+      });
+      expect(result.sql).toBe(
+        'DELETE FROM "users" WHERE "id" = $1 RETURNING "id"'
+      );
+    });
+
+    it("should validate returning fields like select", () => {
+      expect(() =>
+        postgres.toSQL({
+          method: "DELETE",
+          path: "/users/1",
+          query: { returning: ["id; DROP TABLE users"] },
+        })
+      ).toThrow(ValidationError);
+    });
+
+    it("should accept returning through the adapters", async () => {
+      const adapter = createWebAdapter({ dialect: "postgres" });
+      const url = new URL("http://test.com/users");
+      url.searchParams.set(
+        "q",
+        Buffer.from(JSON.stringify({ returning: ["id"] })).toString("base64")
+      );
+      const result = await adapter.toSQL(
+        new Request(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: "John" }),
+        })
+      );
+      expect(result.sql).toMatch(/RETURNING "id"$/);
+    });
+
+    it("should reject malformed returning in the adapters", async () => {
+      const adapter = createWebAdapter({ dialect: "postgres" });
+      const url = new URL("http://test.com/users/1");
+      url.searchParams.set(
+        "q",
+        Buffer.from(JSON.stringify({ returning: "id" })).toString("base64")
+      );
+      await expect(
+        adapter.toSQL(new Request(url, { method: "DELETE" }))
+      ).rejects.toThrow(QueryValidationError);
+    });
+  });
+
+  describe("MySQL fallback", () => {
+    it("should select updated rows after the update", () => {
+      const result = mysql.toSQL({
+        method: "PUT",
+        path: "/users/1",
+        body: { name: "Jane" },
+        query: { returning: ["id", "name"] },
+      });
+      expect(result.sql).toBe("UPDATE `users` SET `name` = ? WHERE `id` = ?");
+      expect(result.returning).toEqual({
+        strategy: "select-after",
+        fields: ["id", "name"],
+        table: "users",
+        primaryKey: ["id"],
+        select: {
+          sql: "SELECT `id`, `name` FROM `users` WHERE `id` = ?",
+          params: ["1"],
+        },
+      });
+    });
+
+    it("should select bulk updated rows by key", () => {
+      const result = mysql.toSQL({
+        method: "PUT",
+        path: "/users",
+        body: [
+          { id: 1, name: "A" },
+          { id: 2, name: "B" },
+        ],
+        query: { returning: ["id"] },
+      });
+      expect(result.returning?.select).toEqual({
+        sql: "SELECT `id` FROM `users` WHERE `id` IN (?, ?)",
+        params: [1, 2],
+      });
+    });
+
+    it("should select deleted rows before the delete", () => {
+      const result = mysql.toSQL({
+        method: "DELETE",
+        path: "/users/1",
+        query: { returning: ["*"] },
+      });
+      expect(result.sql).toBe("DELETE FROM `users` WHERE `id` = ?");
+      expect(result.returning?.strategy).toBe("select-before");
+      expect(result.returning?.select?.sql).toBe(
+        "SELECT * FROM `users` WHERE `id` = ?"
+      );
+    });
+
+    it("should select inserted rows by their keys when provided", () => {
+      const result = mysql.toSQL({
+        method: "POST",
+        path: "/users",
+        body: [
+          { id: 7, name: "A" },
+          { id: 8, name: "B" },
+        ],
+        query: { returning: ["id", "name"] },
+      });
+      expect(result.returning?.strategy).toBe("select-after");
+      expect(result.returning?.select?.params).toEqual([7, 8]);
+    });
+
+    it("should select inserted rows by generated ids", () => {
+      const result = mysql.toSQL({
+        method: "POST",
+        path: "/users",
+        body: [{ name: "A" }, { name: "B" }],
+        query: { returning: ["id", "name"] },
+      });
+      expect(result.returning?.strategy).toBe("select-inserted");
+      expect(result.returning?.select).toBeUndefined();
+
+      const builder = new SQLBuilder({ dialect: "mysql" });
+      expect(builder.buildInsertedSelect(result.returning!, 41, 2)).toEqual({
+        sql: "SELECT `id`, `name` FROM `users` WHERE `id` BETWEEN ? AND ?",
+        params: [41, 42],
+      });
+    });
+
+    it("should refuse returning upserted rows without their keys", () => {
+      expect(() =>
+        mysql.toSQL({
+          method: "POST",
+          path: "/users",
+          body: [{ name: "A" }, { name: "B" }],
+          query: {
+            returning: ["id", "name"],
+            onConflict: { action: "merge" },
+          },
+        })
+      ).toThrow(
+        new ValidationError(
+          "Returning upserted rows on MySQL requires the primary key in every row",
+          { code: "UNSUPPORTED_FEATURE", path: "returning" }
+        )
+      );
+      expect(
+        mysql.toSQL({
+          method: "POST",
+          path: "/users",
+          body: [{ id: 7, name: "A" }],
+          query: {
+            returning: ["id", "name"],
+            onConflict: { action: "merge" },
+          },
+        }).returning?.strategy
+      ).toBe("select-after");
+    });
+
+    it("should apply the row policy to the selected inserted rows", () => {
+      const result = createRestQL({
+        dialect: "mysql",
+        policies: {
+          users: ({ principal }) => ({
+            field: "tenant_id",
+            operator: "=",
+            value: principal?.tenantId,
+          }),
+        },
+      }).toSQL({
+        method: "POST",
+        path: "/users",
+        body: { name: "A" },
+        query: { returning: ["id", "name"] },
+        principal: { role: "member", tenantId: 3 },
+      });
+      const { returning } = result;
+      if (!returning) {
+        throw new Error("Expected a returning fallback");
+      }
+      const builder = new SQLBuilder({ dialect: "mysql" });
+      expect(builder.buildInsertedSelect(returning, 41, 1)).toEqual({
+        sql: "SELECT `id`, `name` FROM `users` WHERE `users`.`tenant_id` = ? AND `id` BETWEEN ? AND ?",
+        params: [3, 41, 41],
+      });
+    });
+  });
+});
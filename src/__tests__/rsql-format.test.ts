@@ -0,0 +1,115 @@
+import Fastify from "fastify";
+import Database = require("better-sqlite3");
+import { parseRsqlQuery } from "..";
+import { createFastifyAdapter } from "../adapters/fastify";
+import { createSqliteDriver } from "../drivers";
+import { QueryValidationError } from "../queryValidator";
+
+describe("RSQL query format", () => {
+  function parse(filter: string) {
+    return parseRsqlQuery(new URLSearchParams({ filter })).where;
+  }
+
+  it("should parse AND and OR groups with AND binding tighter", () => {
+    expect(parse("name==John;age=gt=18,status=in=(a,b)")).toEqual([
+      {
+        operator: "OR",
+        conditions: [
+          {
+            operator: "AND",
+            conditions: [
+              { field: "name", operator: "=", value: "John" },
+              { field: "age", operator: ">", value: "18" },
+            ],
+          },
+          { field: "status", operator: "IN", value: ["a", "b"] },
+        ],
+      },
+    ]);
+  });
+
+  it("should parse nested parentheses into the where list", () => {
+    expect(parse("name==John;(age=ge=18,age<5);role=out=(admin)")).toEqual([
+      { field: "name", operator: "=", value: "John" },
+      {
+        operator: "OR",
+        conditions: [
+          { field: "age", operator: ">=", value: "18" },
+          { field: "age", operator: "<", value: "5" },
+        ],
+      },
+      { field: "role", operator: "NOT IN", value: ["admin"] },
+    ]);
+  });
+
+  it("should parse quoted values, wildcards, null checks and keywords", () => {
+    expect(
+      parse(
+        `title=="Hello, (world)" and name==Jo* and nick!='*x' and deleted_at=isnull=true or email=isnull=false`
+      )
+    ).toEqual([
+      {
+        operator: "OR",
+        conditions: [
+          {
+            operator: "AND",
+            conditions: [
+              { field: "title", operator: "=", value: "Hello, (world)" },
+              { field: "name", operator: "LIKE", value: "Jo%" },
+              { field: "nick", operator: "NOT LIKE", value: "%x" },
+              { field: "deleted_at", operator: "IS NULL", value: null },
+            ],
+          },
+          { field: "email", operator: "IS NOT NULL", value: null },
+        ],
+      },
+    ]);
+  });
+
+  it("should reject malformed expressions", () => {
+    const cases: [string, string, RegExp][] = [
+      ["name=like=Jo", "OPERATOR_NOT_ALLOWED", /"=like=" at position 4/],
+      ["name", "OPERATOR_NOT_ALLOWED", /operator "" at position 4/],
+      ["(name==a", "INVALID_QUERY", /Expected "\)" at the end/],
+      ["age=gt=(1,2)", "INVALID_QUERY", /takes a single value/],
+      ["name==a)", "INVALID_QUERY", /Unexpected "\)" at position 7/],
+    ];
+    for (const [filter, code, message] of cases) {
+      try {
+        parse(filter);
+        throw new Error(`Expected "${filter}" to be rejected`);
+      } catch (error) {
+        expect(error).toBeInstanceOf(QueryValidationError);
+        expect(error).toMatchObject({ code, path: "filter" });
+        expect((error as Error).message).toMatch(message);
+      }
+    }
+  });
+
+  it("should serve RSQL filters through the adapters", async () => {
+    const db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, age INTEGER);
+      INSERT INTO users (name, age) VALUES ('Ann', 34), ('Bob', 17), ('Cid', 45);
+    `);
+    const app = Fastify();
+    await app.register(
+      createFastifyAdapter(
+        { dialect: "sqlite", driver: createSqliteDriver(db) },
+        { queryFormat: "rsql" }
+      ).plugin()
+    );
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/users",
+      query: { filter: "age=gt=18;(name==Ann,name==Bob)" },
+    });
+    expect(response.json()).toEqual({
+      data: [{ id: 1, name: "Ann", age: 34 }],
+    });
+
+    await app.close();
+    db.close();
+  });
+});
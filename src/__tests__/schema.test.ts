@@ -0,0 +1,229 @@
+import { createRestQL } from "..";
+import { SchemaError } from "../schema";
+import { RestQLRequest } from "../types";
+
+describe("Schema registry", () => {
+  const restql = createRestQL({
+    dialect: "postgres",
+    schema: {
+      name: "public",
+      tables: {
+        users: {
+          columns: {
+            id: "int",
+            name: "string",
+            email: "string",
+            status: { type: "enum", values: ["active", "inactive"] },
+          },
+        },
+        orders: {
+          columns: { id: "int", user_id: "int", total: "float" },
+        },
+      },
+    },
+  });
+
+  function get(path: string, query: any = {}): RestQLRequest {
+    return { method: "GET", path, query };
+  }
+
+  it("should prefix tables with the schema name", () => {
+    const result = restql.toSQL(get("/users", { select: ["id"] }));
+    expect(result.sql).toBe('SELECT "id" FROM "public"."users"');
+  });
+
+  it("should expand * to the exposed columns", () => {
+    const result = restql.toSQL(get("/users"));
+    expect(result.sql).toBe(
+      'SELECT "id", "name", "email", "status" FROM "public"."users"'
+    );
+  });
+
+  it("should qualify expanded columns when joining", () => {
+    const result = restql.toSQL(
+      get("/users", {
+        joins: [
+          {
+            type: "LEFT",
+            table: "orders",
+            alias: "o",
+            on: [{ field: "users.id", operator: "=", value: "o.user_id" }],
+          },
+        ],
+      })
+    );
+    expect(result.sql).toMatch(
+      /^SELECT "users"."id", "users"."name", "users"."email", "users"."status", "o"."id", "o"."user_id", "o"."total" FROM/
+    );
+  });
+
+  it("should reject unknown tables", () => {
+    expect(() => restql.toSQL(get("/secrets"))).toThrow(SchemaError);
+    expect(() => restql.toSQL(get("/secrets"))).toThrow(
+      'Unknown table "secrets"'
+    );
+  });
+
+  it("should reject unknown columns in select, where and orderBy", () => {
+    expect(() =>
+      restql.toSQL(get("/users", { select: ["id", "password"] }))
+    ).toThrow('Unknown column "password" on table "users"');
+
+    expect(() =>
+      restql.toSQL(
+        get("/users", {
+          where: {
+            operator: "OR",
+            conditions: [
+              { field: "status", operator: "=", value: "active" },
+              { field: "password", operator: "=", value: "x" },
+            ],
+          },
+        })
+      )
+    ).toThrow(SchemaError);
+
+    expect(() =>
+      restql.toSQL(
+        get("/users", { orderBy: [{ field: "password", direction: "ASC" }] })
+      )
+    ).toThrow(SchemaError);
+  });
+
+  it("should reject unknown joined tables and qualifiers", () => {
+    expect(() =>
+      restql.toSQL(
+        get("/users", {
+          joins: [
+            {
+              type: "LEFT",
+              table: "payments",
+              on: [
+                { field: "users.id", operator: "=", value: "payments.user_id" },
+              ],
+            },
+          ],
+        })
+      )
+    ).toThrow('Unknown table "payments"');
+
+    expect(() =>
+      restql.toSQL(get("/users", { select: ["orders.total"] }))
+    ).toThrow('Unknown table or alias "orders" in field "orders.total"');
+  });
+
+  it("should reject unknown columns in mutation bodies", () => {
+    expect(() =>
+      restql.toSQL({
+        method: "POST",
+        path: "/users",
+        body: { name: "John", is_admin: true },
+      })
+    ).toThrow('Unknown column "is_admin" on table "users"');
+  });
+
+  describe("value types", () => {
+    const typed = createRestQL({
+      dialect: "postgres",
+      schema: {
+        tables: {
+          events: {
+            columns: {
+              id: "uuid",
+              seq: "int",
+              day: "date",
+              at: "datetime",
+              public: "boolean",
+              kind: { type: "enum", values: ["a", "b"] },
+              title: { type: "string", nullable: false },
+            },
+          },
+        },
+      },
+    });
+    const where = (field: string, operator: string, value: unknown) =>
+      get("/events", { where: { field, operator, value } });
+
+    it("should accept values matching the column type", () => {
+      const valid: [string, string, unknown][] = [
+        ["id", "=", "0b9f8a4e-1c2d-4e5f-8a9b-0c1d2e3f4a5b"],
+        ["seq", ">", "42"],
+        ["seq", "IN", [1, "2"]],
+        ["day", "BETWEEN", ["2024-01-01", "2024-12-31"]],
+        ["at", ">=", "2024-01-01T10:00:00Z"],
+        ["public", "=", "true"],
+        ["kind", "!=", "b"],
+        ["title", "LIKE", "O'Brien%"],
+        ["title", "=", null],
+      ];
+      for (const [field, operator, value] of valid) {
+        expect(() => typed.toSQL(where(field, operator, value))).not.toThrow();
+      }
+    });
+
+    it("should reject values of the wrong type or arity", () => {
+      const invalid: [RestQLRequest, string, string][] = [
+        [
+          where("seq", "=", "1; DROP TABLE events"),
+          'Value "1; DROP TABLE events" is not a valid int for column "seq"',
+          "where.value",
+        ],
+        [
+          where("seq", "IN", [1, "x"]),
+          'Value "x" is not a valid int for column "seq"',
+          "where.value[1]",
+        ],
+        [
+          where("day", "<", "yesterday"),
+          'Value "yesterday" is not a valid date for column "day"',
+          "where.value",
+        ],
+        [
+          where("kind", "=", "c"),
+          'Value "c" is not a valid enum for column "kind"',
+          "where.value",
+        ],
+        [
+          where("seq", "=", [1, 2]),
+          'Operator "=" takes a single value',
+          "where.value",
+        ],
+        [
+          where("day", "BETWEEN", ["2024-01-01"]),
+          'Operator "BETWEEN" requires an array of exactly two values',
+          "where.value",
+        ],
+        [
+          get("/events/42"),
+          'Value "42" is not a valid uuid for column "id"',
+          "where.value",
+        ],
+        [
+          {
+            method: "POST",
+            path: "/events",
+            body: [{ seq: 1 }, { seq: 2, title: null }],
+          },
+          'Column "title" can\'t be null',
+          "values[1].title",
+        ],
+      ];
+      for (const [request, message, path] of invalid) {
+        let error: SchemaError | undefined;
+        try {
+          typed.toSQL(request);
+        } catch (caught) {
+          error = caught as SchemaError;
+        }
+        expect(error).toBeInstanceOf(SchemaError);
+        expect(error).toMatchObject({ code: "INVALID_VALUE", message, path });
+      }
+    });
+  });
+
+  it("should keep a plain schema name working", () => {
+    const named = createRestQL({ dialect: "postgres", schema: "public" });
+    const result = named.toSQL(get("/anything"));
+    expect(result.sql).toBe('SELECT * FROM "public"."anything"');
+  });
+});
@@ -1,9 +1,14 @@
 import { validateAndSanitizeQuery, ValidationError } from "../validation";
-import { defaultValidationOptions } from "..";
+import { createRestQL, defaultValidationOptions } from "..";
 
 describe("SQL Injection Prevention", () => {
   const validate = (query: any) =>
     validateAndSanitizeQuery(query, defaultValidationOptions);
+  const validateLegacy = (query: any) =>
+    validateAndSanitizeQuery(query, {
+      ...defaultValidationOptions,
+      valueValidation: "legacy",
+    });
 
   describe("Field Name Validation", () => {
     it("should reject field names with SQL injection attempts", () => {
@@ -34,7 +39,7 @@ describe("SQL Injection Prevention", () => {
     // });
   });
 
-  describe("Value Validation", () => {
+  describe("Legacy Value Validation", () => {
     it("should reject values with SQL injection attempts", () => {
       const maliciousQueries = [
         {
@@ -60,7 +65,7 @@ describe("SQL Injection Prevention", () => {
       ];
 
       maliciousQueries.forEach((query) => {
-        expect(() => validate(query)).toThrow(ValidationError);
+        expect(() => validateLegacy(query)).toThrow(ValidationError);
       });
     });
 
@@ -78,7 +83,25 @@ describe("SQL Injection Prevention", () => {
       ];
 
       maliciousQueries.forEach((query) => {
-        expect(() => validate(query)).toThrow(ValidationError);
+        expect(() => validateLegacy(query)).toThrow(ValidationError);
+      });
+    });
+
+    it("should only screen value contents in legacy mode", () => {
+      const values = [
+        "O'Brien",
+        "2024-01-01",
+        "settings",
+        "https://example.com/a-b",
+        "' OR '1'='1",
+      ];
+
+      values.forEach((value) => {
+        const query = { where: { field: "name", operator: "=", value } };
+        expect(validate(query).where).toEqual([
+          { field: "name", operator: "=", value },
+        ]);
+        expect(() => validateLegacy(query)).toThrow(ValidationError);
       });
     });
   });
@@ -110,6 +133,81 @@ describe("SQL Injection Prevention", () => {
         expect(() => validate(query)).toThrow(ValidationError);
       });
     });
+
+    it("should reject column references that aren't identifiers", () => {
+      const query = {
+        joins: [
+          {
+            type: "LEFT",
+            table: "orders",
+            on: [
+              {
+                field: "orders.user_id",
+                operator: "=",
+                value: 'users.id" OR 1=1 OR "x',
+              },
+            ],
+          },
+        ],
+      };
+      expect(() => validate(query)).toThrow(
+        'Invalid column reference "users.id" OR 1=1 OR "x" in join condition'
+      );
+      expect(
+        createRestQL({ dialect: "postgres" }).toSQL({
+          method: "GET",
+          path: "/users",
+          query,
+        })
+      ).toEqual({
+        sql: 'SELECT * FROM "users" LEFT JOIN "orders" ON "orders"."user_id" = $1',
+        params: ['users.id" OR 1=1 OR "x'],
+      });
+    });
+  });
+
+  describe("Identifier Escaping", () => {
+    it("should double quotes inside identifiers", () => {
+      const sql = (dialect: "postgres" | "mysql" | "mssql", as: string) =>
+        createRestQL({ dialect }).toSQL({
+          method: "GET",
+          path: "/users",
+          query: { select: [{ field: "name", as }] },
+        }).sql;
+      expect(sql("postgres", 'x" FROM secrets --')).toBe(
+        'SELECT "name" AS "x"" FROM secrets --" FROM "users"'
+      );
+      expect(sql("postgres", '"x" FROM secrets --"')).toBe(
+        'SELECT "name" AS """x"" FROM secrets --""" FROM "users"'
+      );
+      expect(sql("mysql", "x` FROM secrets --")).toBe(
+        "SELECT `name` AS `x`` FROM secrets --` FROM `users`"
+      );
+      expect(sql("mssql", "x] FROM secrets --")).toBe(
+        "SELECT [name] AS [x]] FROM secrets --] FROM [users]"
+      );
+    });
+
+    it("should reject unsafe aliases in the schema step", () => {
+      const restql = createRestQL({
+        dialect: "postgres",
+        schema: {
+          tables: { users: { columns: { id: "int", name: "string" } } },
+        },
+      });
+      expect(() =>
+        restql.toSQL({
+          method: "GET",
+          path: "/users",
+          query: { select: [{ field: "name", as: 'x" FROM secrets --' }] },
+        })
+      ).toThrow(
+        new ValidationError(
+          'Invalid alias "x" FROM secrets --". Must start with a letter and contain only alphanumeric characters and underscores',
+          { code: "INVALID_ALIAS", path: "select[0].as" }
+        )
+      );
+    });
   });
 
   describe("Complex Validation", () => {
@@ -184,6 +282,49 @@ describe("SQL Injection Prevention", () => {
     });
   });
 
+  describe("Operator Values", () => {
+    it("should accept arrays for IN, NOT IN and BETWEEN", () => {
+      const query = {
+        where: {
+          operator: "AND",
+          conditions: [
+            { field: "status", operator: "IN", value: ["active", "pending"] },
+            { field: "id", operator: "NOT IN", value: [1, 2] },
+            { field: "age", operator: "BETWEEN", value: [18, 30] },
+            { field: "deleted_at", operator: "IS NULL" },
+          ],
+        },
+      };
+
+      expect(() => validate(query)).not.toThrow();
+    });
+
+    it("should reject malformed operator values", () => {
+      const invalidQueries = [
+        { where: { field: "status", operator: "IN", value: [] } },
+        { where: { field: "age", operator: "BETWEEN", value: [18] } },
+        { where: { field: "age", operator: "BETWEEN", value: 18 } },
+        { where: { field: "status", operator: "=", value: ["active"] } },
+      ];
+
+      invalidQueries.forEach((query) => {
+        expect(() => validate(query)).toThrow(ValidationError);
+      });
+    });
+
+    it("should validate every value in a list", () => {
+      const query = {
+        where: {
+          field: "status",
+          operator: "IN",
+          value: ["active", "'; DROP TABLE users; --"],
+        },
+      };
+
+      expect(() => validateLegacy(query)).toThrow(ValidationError);
+    });
+  });
+
   describe("Value Length Validation", () => {
     it("should reject values exceeding maximum length", () => {
       const longValue = "a".repeat(1001); // Default maxValueLength is 1000
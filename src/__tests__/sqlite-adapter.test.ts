@@ -390,7 +390,8 @@ describe("SQLite Web Adapter", () => {
       const result = await adapter.toSQL(req);
       expect(result.sql).toMatch(/UPDATE "users" SET/);
       expect(result.sql).toMatch(/CASE/);
-      expect(result.params).toHaveLength(4);
+      expect(result.sql).toMatch(/WHERE "id" IN \(\?, \?\)$/);
+      expect(result.params).toEqual([1, "active", 2, "inactive", 1, 2]);
     });
 
     it("should handle DELETE", async () => {
@@ -0,0 +1,146 @@
+import { createRestQL, defaultValidationOptions } from "..";
+import { createWebAdapter } from "../adapters/web";
+import { parsePreferHeader } from "../parser";
+import { ValidationError } from "../validation";
+
+describe("Upsert", () => {
+  const postgres = createRestQL({
+    dialect: "postgres",
+    validation: defaultValidationOptions,
+  });
+  const sqlite = createRestQL({ dialect: "sqlite" });
+  const mysql = createRestQL({ dialect: "mysql" });
+
+  const body = [
+    { id: 1, name: "John", email: "john@example.com" },
+    { id: 2, name: "Jane", email: "jane@example.com" },
+  ];
+
+  describe("PostgreSQL and SQLite", () => {
+    it("should merge on the primary key by default", () => {
+      const result = postgres.toSQL({
+        method: "POST",
+        path: "/users",
+        body,
+        query: { onConflict: { action: "merge" } },
+      });
+      expect(result.sql).toBe(
+        'INSERT INTO "users" ("id", "name", "email") VALUES ($1, $2, $3), ($4, $5, $6) ON CONFLICT ("id") DO UPDATE SET "name" = EXCLUDED."name", "email" = EXCLUDED."email"'
+      );
+      expect(result.params).toHaveLength(6);
+    });
+
+    it("should merge only the requested columns on a custom target", () => {
+      const result = sqlite.toSQL({
+        method: "POST",
+        path: "/users",
+        body: { email: "john@example.com", name: "John" },
+        query: {
+          onConflict: { action: "merge", target: ["email"], update: ["name"] },
+        },
+      });
+      expect(result.sql).toBe(
+        'INSERT INTO "users" ("email", "name") VALUES (?, ?) ON CONFLICT ("email") DO UPDATE SET "name" = EXCLUDED."name"'
+      );
+    });
+
+    it("should keep existing rows when ignoring duplicates", () => {
+      const result = postgres.toSQL({
+        method: "POST",
+        path: "/users",
+        body: body[0],
+        query: { onConflict: { action: "ignore" }, returning: ["id"] },
+      });
+      expect(result.sql).toBe(
+        'INSERT INTO "users" ("id", "name", "email") VALUES ($1, $2, $3) ON CONFLICT ("id") DO NOTHING RETURNING "id"'
+      );
+    });
+
+    it("should reject invalid conflict options", () => {
+      expect(() =>
+        postgres.toSQL({
+          method: "POST",
+          path: "/users",
+          body,
+          query: { onConflict: { action: "replace" } },
+        })
+      ).toThrow(ValidationError);
+
+      expect(() =>
+        postgres.toSQL({
+          method: "POST",
+          path: "/users",
+          body,
+          query: {
+            onConflict: { action: "merge", target: ["id); DROP TABLE users"] },
+          },
+        })
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe("MySQL", () => {
+    it("should merge with ON DUPLICATE KEY UPDATE", () => {
+      const result = mysql.toSQL({
+        method: "POST",
+        path: "/users",
+        body,
+        query: { onConflict: { action: "merge" } },
+      });
+      expect(result.sql).toBe(
+        "INSERT INTO `users` (`id`, `name`, `email`) VALUES (?, ?, ?), (?, ?, ?) ON DUPLICATE KEY UPDATE `name` = VALUES(`name`), `email` = VALUES(`email`)"
+      );
+    });
+
+    it("should ignore duplicates with a no-op assignment", () => {
+      const result = mysql.toSQL({
+        method: "POST",
+        path: "/users",
+        body,
+        query: { onConflict: { action: "ignore" } },
+      });
+      expect(result.sql).toMatch(/ ON DUPLICATE KEY UPDATE `id` = `id`$/);
+    });
+  });
+
+  describe("Prefer header", () => {
+    it("should parse resolution preferences", () => {
+      expect(parsePreferHeader("resolution=merge-duplicates")).toEqual({
+        action: "merge",
+      });
+      expect(
+        parsePreferHeader("return=representation, resolution=ignore-duplicates")
+      ).toEqual({ action: "ignore" });
+      expect(parsePreferHeader("return=minimal")).toBeUndefined();
+      expect(parsePreferHeader(undefined)).toBeUndefined();
+    });
+
+    it("should upsert when the adapter receives a Prefer header", async () => {
+      const adapter = createWebAdapter({ dialect: "postgres" });
+      const result = await adapter.toSQL(
+        new Request("http://test.com/users", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Prefer: "resolution=merge-duplicates",
+          },
+          body: JSON.stringify(body),
+        })
+      );
+      expect(result.sql).toMatch(
+        /ON CONFLICT \("id"\) DO UPDATE SET "name" = EXCLUDED."name"/
+      );
+    });
+
+    it("should let an explicit onConflict win over the header", () => {
+      const result = postgres.toSQL({
+        method: "POST",
+        path: "/users",
+        body,
+        headers: { prefer: "resolution=merge-duplicates" },
+        query: { onConflict: { action: "ignore" } },
+      });
+      expect(result.sql).toMatch(/DO NOTHING$/);
+    });
+  });
+});
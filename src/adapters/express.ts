@@ -1,37 +1,73 @@
-import { Request } from "express";
-import { RestQLRequest } from "../types";
+import { Request, RequestHandler } from "express";
+import { QueryResult, RestQLRequest, RestQLResponse } from "../types";
 import { createRestQL, RestQLOptions } from "../index";
 import { validateQuery, QueryValidationError } from "../queryValidator";
-
-function decodeQuery(queryStr: string): unknown {
-  try {
-    return JSON.parse(Buffer.from(queryStr, "base64").toString());
-  } catch {
-    throw new QueryValidationError("Invalid base64 or JSON format");
-  }
-}
+import { parseQueryParams, toSearchParams } from "../formats";
+import { AdapterOptions, handleRequest, requireDriver } from "./handler";
 
 export interface ExpressAdapter {
-  toSQL(req: Request): Promise<{ sql: string; params: any[] }>;
+  toSQL(req: Request): Promise<RestQLResponse>;
+  /** Run the request with the driver passed in the config */
+  execute(req: Request): Promise<QueryResult>;
+  /**
+   * Middleware serving the CRUD API for every table below its mount point,
+   * e.g. `app.use("/api", express.json(), adapter.router())`
+   */
+  router(): RequestHandler;
 }
 
 export function createExpressAdapter(
   config: RestQLOptions,
-  { enableJsonPayloads = false }: { enableJsonPayloads?: boolean } = {}
+  {
+    enableJsonPayloads = false,
+    queryFormat = "json",
+    principal,
+  }: AdapterOptions<Request> = {}
 ): ExpressAdapter {
   const restql = createRestQL(config);
 
-  return {
-    async toSQL(req: Request) {
-      let method = req.method;
-      let queryOptions = {};
+  async function toRestQLRequest(req: Request): Promise<RestQLRequest> {
+    let method = req.method;
+    let queryOptions = {};
 
-      // Handle query string parameter
-      if (req.query && req.query.q) {
+    // Handle query string parameters
+    const decodedQuery = parseQueryParams(
+      toSearchParams(req.query as Record<string, unknown>),
+      queryFormat
+    );
+    if (decodedQuery !== undefined) {
+      try {
+        validateQuery(decodedQuery);
+        queryOptions = decodedQuery;
+      } catch (error) {
+        if (error instanceof QueryValidationError) {
+          throw error;
+        }
+        throw new QueryValidationError(
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      }
+    }
+    let body: any;
+
+    if (method !== "GET" && method !== "HEAD") {
+      body = req.body as any;
+      try {
+        body = JSON.parse(body);
+      } catch (error) {
+        // throw new QueryValidationError("Invalid JSON payload");
+      }
+    }
+
+    if (method === "POST" && enableJsonPayloads && body) {
+      // Handle JSON payload in POST request
+      // console.log("body", body);
+      if (body.query && (body.action == "get" || body.action == "GET")) {
         try {
-          const decodedQuery = decodeQuery(req.query.q as string);
-          validateQuery(decodedQuery);
-          queryOptions = decodedQuery;
+          validateQuery(body.query);
+          queryOptions = body.query;
+          method = body.action.toUpperCase();
+          body = {};
         } catch (error) {
           if (error instanceof QueryValidationError) {
             throw error;
@@ -41,45 +77,45 @@ export function createExpressAdapter(
           );
         }
       }
-      let body: any;
+    }
 
-      if (method !== "GET" && method !== "HEAD") {
-        body = req.body as any;
-        try {
-          body = JSON.parse(body);
-        } catch (error) {
-          // throw new QueryValidationError("Invalid JSON payload");
-        }
-      }
+    const restQLRequest: RestQLRequest = {
+      method: method as any,
+      path: req.path,
+      query: queryOptions,
+      body: body,
+      headers: req.headers,
+      principal: await principal?.(req),
+    };
 
-      if (method === "POST" && enableJsonPayloads && body) {
-        // Handle JSON payload in POST request
-        // console.log("body", body);
-        if (body.query && (body.action == "get" || body.action == "GET")) {
-          try {
-            validateQuery(body.query);
-            queryOptions = body.query;
-            method = body.action.toUpperCase();
-            body = {};
-          } catch (error) {
-            if (error instanceof QueryValidationError) {
-              throw error;
-            }
-            throw new QueryValidationError(
-              error instanceof Error ? error.message : "Unknown error"
-            );
-          }
-        }
-      }
+    return restQLRequest;
+  }
 
-      const restQLRequest: RestQLRequest = {
-        method: method as any,
-        path: req.path,
-        query: queryOptions,
-        body: body,
-      };
+  return {
+    async toSQL(req: Request) {
+      return restql.toSQL(await toRestQLRequest(req));
+    },
+
+    async execute(req: Request) {
+      return restql.execute(await toRestQLRequest(req));
+    },
 
-      return restql.toSQL(restQLRequest);
+    router() {
+      requireDriver(config);
+      return async (req, res) => {
+        const { status, body, contentType } = await handleRequest(
+          () => toRestQLRequest(req),
+          restql.execute
+        );
+        if (body === undefined) {
+          res.status(status).end();
+        } else {
+          res
+            .status(status)
+            .type(contentType ?? "application/json")
+            .send(JSON.stringify(body));
+        }
+      };
     },
   };
 }
@@ -1,38 +1,79 @@
-import { FastifyRequest } from "fastify";
-import { RestQLRequest } from "../types";
+import { FastifyPluginAsync, FastifyRequest } from "fastify";
+import { QueryResult, RestQLRequest, RestQLResponse } from "../types";
 import { createRestQL, RestQLOptions } from "../index";
 import { validateQuery, QueryValidationError } from "../queryValidator";
+import { parseQueryParams, toSearchParams } from "../formats";
+import { AdapterOptions, handleRequest, requireDriver } from "./handler";
 
-function decodeQuery(queryStr: string): unknown {
-  try {
-    return JSON.parse(Buffer.from(queryStr, "base64").toString());
-  } catch {
-    throw new QueryValidationError("Invalid base64 or JSON format");
+/**
+ * Path of the request without its query string. Inside the plugin the
+ * wildcard parameter holds the path below the plugin prefix
+ */
+function requestPath(req: FastifyRequest): string {
+  const params = req.params as Record<string, string> | undefined;
+  if (params && params["*"] !== undefined) {
+    return `/${params["*"]}`;
   }
+  return req.url.split("?")[0];
 }
 
 export interface FastifyAdapter {
-  toSQL(req: FastifyRequest): Promise<{ sql: string; params: any[] }>;
+  toSQL(req: FastifyRequest): Promise<RestQLResponse>;
+  /** Run the request with the driver passed in the config */
+  execute(req: FastifyRequest): Promise<QueryResult>;
+  /**
+   * Plugin serving the CRUD API for every table below its prefix,
+   * e.g. `app.register(adapter.plugin(), { prefix: "/api" })`
+   */
+  plugin(): FastifyPluginAsync;
 }
 
 export function createFastifyAdapter(
   config: RestQLOptions,
-  { enableJsonPayloads = false }: { enableJsonPayloads?: boolean } = {}
+  {
+    enableJsonPayloads = false,
+    queryFormat = "json",
+    principal,
+  }: AdapterOptions<FastifyRequest> = {}
 ): FastifyAdapter {
   const restql = createRestQL(config);
 
-  return {
-    async toSQL(req: FastifyRequest) {
-      let method = req.method;
-      let queryOptions = {};
+  async function toRestQLRequest(req: FastifyRequest): Promise<RestQLRequest> {
+    let method = req.method;
+    let queryOptions = {};
+
+    // Parse query parameters
+    const decodedQuery = parseQueryParams(
+      toSearchParams(req.query as Record<string, unknown>),
+      queryFormat
+    );
+    if (decodedQuery !== undefined) {
+      try {
+        validateQuery(decodedQuery);
+        queryOptions = decodedQuery;
+      } catch (error) {
+        if (error instanceof QueryValidationError) {
+          throw error;
+        }
+        throw new QueryValidationError(
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      }
+    }
 
-      // Parse query parameters
-      const query = req.query as Record<string, string>;
-      if (query.q) {
+    // Parse JSON body for POST requests
+    else if (method === "POST" && enableJsonPayloads && req.body) {
+      const body = req.body as any;
+      if (
+        body.action &&
+        body.query &&
+        (body.action == "get" || body.action == "GET")
+      ) {
         try {
-          const decodedQuery = decodeQuery(query.q);
-          validateQuery(decodedQuery);
-          queryOptions = decodedQuery;
+          validateQuery(body.query);
+          queryOptions = body.query;
+          method = body.action.toUpperCase();
+          req.body = {};
         } catch (error) {
           if (error instanceof QueryValidationError) {
             throw error;
@@ -42,39 +83,43 @@ export function createFastifyAdapter(
           );
         }
       }
+    }
 
-      // Parse JSON body for POST requests
-      else if (method === "POST" && enableJsonPayloads && req.body) {
-        const body = req.body as any;
-        if (
-          body.action &&
-          body.query &&
-          (body.action == "get" || body.action == "GET")
-        ) {
-          try {
-            validateQuery(body.query);
-            queryOptions = body.query;
-            method = body.action.toUpperCase();
-            req.body = {};
-          } catch (error) {
-            if (error instanceof QueryValidationError) {
-              throw error;
-            }
-            throw new QueryValidationError(
-              error instanceof Error ? error.message : "Unknown error"
-            );
-          }
-        }
-      }
+    const restQLRequest: RestQLRequest = {
+      method: method as any,
+      path: requestPath(req),
+      query: queryOptions,
+      body: req.body,
+      headers: req.headers,
+      principal: await principal?.(req),
+    };
 
-      const restQLRequest: RestQLRequest = {
-        method: method as any,
-        path: req.url,
-        query: queryOptions,
-        body: req.body,
-      };
+    return restQLRequest;
+  }
 
-      return restql.toSQL(restQLRequest);
+  return {
+    async toSQL(req: FastifyRequest) {
+      return restql.toSQL(await toRestQLRequest(req));
+    },
+
+    async execute(req: FastifyRequest) {
+      return restql.execute(await toRestQLRequest(req));
+    },
+
+    plugin() {
+      requireDriver(config);
+      return async (fastify) => {
+        fastify.all("/*", async (req, reply) => {
+          const { status, body, contentType } = await handleRequest(
+            () => toRestQLRequest(req),
+            restql.execute
+          );
+          if (contentType) {
+            reply.type(contentType);
+          }
+          return reply.code(status).send(body);
+        });
+      };
     },
   };
 }
@@ -0,0 +1,126 @@
+import { HttpMethod, Principal, QueryResult, RestQLRequest } from "../types";
+import {
+  MethodNotAllowedError,
+  NotFoundError,
+  toProblemDetails,
+} from "../errors";
+import { RestQLOptions } from "../index";
+import { QueryFormat } from "../formats";
+import { parsePath } from "../parser";
+
+const SUPPORTED_METHODS: HttpMethod[] = [
+  "GET",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+];
+
+export interface AdapterOptions<Req = unknown> {
+  /** Accept `{ action: "get", query }` JSON bodies on POST as reads */
+  enableJsonPayloads?: boolean;
+  /** Query string syntax, defaults to base64 JSON in `?q=` */
+  queryFormat?: QueryFormat;
+  /**
+   * Caller of a request, checked against the configured permissions, e.g.
+   * read from a session or a verified token
+   */
+  principal?: (
+    req: Req
+  ) => Principal | undefined | Promise<Principal | undefined>;
+}
+
+/**
+ * Framework-neutral HTTP response written by the adapter handlers
+ */
+export interface HandlerResponse {
+  status: number;
+  body?: unknown;
+  contentType?: string;
+}
+
+/**
+ * Handlers run every request, so they can't be created without a driver
+ */
+export function requireDriver(options: RestQLOptions): void {
+  if (!options.driver) {
+    throw new Error("A driver is required to serve requests");
+  }
+}
+
+/**
+ * Error payload shared by every handler, as problem details
+ */
+export function errorResponse(error: unknown): HandlerResponse {
+  const problem = toProblemDetails(error);
+  return {
+    status: problem.status,
+    body: problem,
+    contentType: "application/problem+json",
+  };
+}
+
+function json(status: number, body: unknown): HandlerResponse {
+  return { status, body, contentType: "application/json" };
+}
+
+/**
+ * Shape a query result as an HTTP response:
+ * - GET `/table` answers `{ data: rows }`, plus the effective `limit` when
+ *   the server set it. GET `/table/:id` answers `{ data: row }` or 404
+ * - POST answers 201 with the rows returned by `returning`
+ * - PUT and PATCH answer the updated rows and count, or 404 when
+ *   `/table/:id` matched nothing
+ * - DELETE answers 204, or the deleted rows when `returning` was requested
+ */
+export function toHandlerResponse(
+  request: RestQLRequest,
+  result: QueryResult
+): HandlerResponse {
+  const { table, id } = parsePath(request.path);
+  const isItem = id !== undefined;
+  if (isItem && request.method !== "POST" && result.rowCount === 0) {
+    throw new NotFoundError(`No row "${id}" in "${table}"`);
+  }
+
+  switch (request.method) {
+    case "GET":
+      if (isItem) {
+        return json(200, { data: result.rows[0] });
+      }
+      return json(200, {
+        data: result.rows,
+        ...(result.limit !== undefined && { limit: result.limit }),
+      });
+
+    case "POST":
+      return json(201, { data: result.rows, count: result.rowCount });
+
+    case "PUT":
+    case "PATCH":
+      return json(200, { data: result.rows, count: result.rowCount });
+
+    case "DELETE":
+      return result.rows.length > 0
+        ? json(200, { data: result.rows, count: result.rowCount })
+        : { status: 204 };
+  }
+}
+
+/**
+ * Build, run and shape a request, turning failures into error responses
+ */
+export async function handleRequest(
+  toRequest: () => Promise<RestQLRequest>,
+  execute: (request: RestQLRequest) => Promise<QueryResult>
+): Promise<HandlerResponse> {
+  try {
+    const request = await toRequest();
+    if (!SUPPORTED_METHODS.includes(request.method)) {
+      throw new MethodNotAllowedError(request.method);
+    }
+    return toHandlerResponse(request, await execute(request));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,92 +1,128 @@
-import { RestQLRequest } from "../types";
+import { QueryResult, RestQLRequest, RestQLResponse } from "../types";
 import { createRestQL, RestQLOptions } from "../index";
 import { validateQuery, QueryValidationError } from "../queryValidator";
-
-function decodeQuery(queryStr: string): any {
-  try {
-    return JSON.parse(Buffer.from(queryStr, "base64").toString());
-  } catch {
-    throw new QueryValidationError("Invalid base64 or JSON format");
-  }
-}
+import { parseQueryParams } from "../formats";
+import { AdapterOptions, handleRequest, requireDriver } from "./handler";
 
 export interface WebAdapter {
-  toSQL(req: Request): Promise<{ sql: string; params: any[] }>;
+  toSQL(req: Request): Promise<RestQLResponse>;
+  /** Run the request with the driver passed in the config */
+  execute(req: Request): Promise<QueryResult>;
+  /**
+   * Fetch-style handler serving the CRUD API for every table, optionally
+   * below `basePath`, e.g. `Bun.serve({ fetch: adapter.handler() })`
+   */
+  handler(options?: { basePath?: string }): (req: Request) => Promise<Response>;
 }
 
 export function createWebAdapter(
   config: RestQLOptions,
-  { enableJsonPayloads = false }: { enableJsonPayloads?: boolean } = {}
+  {
+    enableJsonPayloads = false,
+    queryFormat = "json",
+    principal,
+  }: AdapterOptions<Request> = {}
 ): WebAdapter {
   const restql = createRestQL(config);
 
-  return {
-    async toSQL(req: Request) {
-      const url = new URL(req.url);
-      let method = req.method;
-      let queryOptions: any = {};
-
-      // Parse query parameters
-      if (url.searchParams.has("q")) {
-        const queryStr = url.searchParams.get("q")!;
-        try {
-          const decodedQuery = decodeQuery(queryStr);
-          validateQuery(decodedQuery);
-          queryOptions = decodedQuery;
-        } catch (error) {
-          if (error instanceof QueryValidationError) {
-            throw error;
-          }
-          throw new QueryValidationError(
-            error instanceof Error ? error.message : "Unknown error"
-          );
+  async function toRestQLRequest(req: Request): Promise<RestQLRequest> {
+    const url = new URL(req.url);
+    let method = req.method;
+    let queryOptions: any = {};
+
+    // Parse query parameters
+    const decodedQuery = parseQueryParams(url.searchParams, queryFormat);
+    if (decodedQuery !== undefined) {
+      try {
+        validateQuery(decodedQuery);
+        queryOptions = decodedQuery;
+      } catch (error) {
+        if (error instanceof QueryValidationError) {
+          throw error;
         }
+        throw new QueryValidationError(
+          error instanceof Error ? error.message : "Unknown error"
+        );
       }
+    }
 
-      // Parse body if present
-      let body: any;
+    // Parse body if present
+    let body: any;
 
-      if (method !== "GET" && method !== "HEAD") {
-        const contentType = req.headers.get("content-type");
-        if (contentType?.includes("application/json")) {
-          body = await req.json();
-        }
+    if (method !== "GET" && method !== "HEAD") {
+      const contentType = req.headers.get("content-type");
+      if (contentType?.includes("application/json")) {
+        body = await req.json();
       }
+    }
+
+    if (enableJsonPayloads && method === "POST" && body.query) {
+      try {
+        const { query, action } = body as {
+          query: any;
+          action: string;
+        };
+
+        // console.log("body", body);
 
-      if (enableJsonPayloads && method === "POST" && body.query) {
-        try {
-          const { query, action } = body as {
-            query: any;
-            action: string;
-          };
-
-          // console.log("body", body);
-
-          // Use action from JSON payload as query if present
-          if (query && (action == "get" || action == "GET")) {
-            validateQuery(query);
-            queryOptions = query;
-            method = action.toUpperCase();
-            body = {};
-          }
-        } catch (error) {
-          if (error instanceof QueryValidationError) {
-            throw error;
-          }
-          throw new QueryValidationError(
-            error instanceof Error ? error.message : "Unknown error"
-          );
+        // Use action from JSON payload as query if present
+        if (query && (action == "get" || action == "GET")) {
+          validateQuery(query);
+          queryOptions = query;
+          method = action.toUpperCase();
+          body = {};
         }
+      } catch (error) {
+        if (error instanceof QueryValidationError) {
+          throw error;
+        }
+        throw new QueryValidationError(
+          error instanceof Error ? error.message : "Unknown error"
+        );
       }
+    }
 
-      const restQLRequest: RestQLRequest = {
-        method: method as any,
-        path: url.pathname,
-        query: queryOptions,
-        body,
-      };
+    const restQLRequest: RestQLRequest = {
+      method: method as any,
+      path: url.pathname,
+      query: queryOptions,
+      body,
+      headers: Object.fromEntries(req.headers.entries()),
+      principal: await principal?.(req),
+    };
 
-      return restql.toSQL(restQLRequest);
+    return restQLRequest;
+  }
+
+  return {
+    async toSQL(req: Request) {
+      return restql.toSQL(await toRestQLRequest(req));
+    },
+
+    async execute(req: Request) {
+      return restql.execute(await toRestQLRequest(req));
+    },
+
+    handler({ basePath = "" } = {}) {
+      requireDriver(config);
+      const prefix = basePath.replace(/\/+$/, "");
+
+      return async (req: Request) => {
+        const { status, body, contentType } = await handleRequest(async () => {
+          const request = await toRestQLRequest(req);
+          return request.path.startsWith(prefix)
+            ? { ...request, path: request.path.slice(prefix.length) }
+            : request;
+        }, restql.execute);
+
+        if (body === undefined) {
+          return new Response(null, { status });
+        }
+        return new Response(JSON.stringify(body), {
+          status,
+          headers: { "Content-Type": contentType ?? "application/json" },
+        });
+      };
     },
   };
 }
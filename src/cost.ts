@@ -0,0 +1,166 @@
+import {
+  CostOptions,
+  CostWeights,
+  Embed,
+  ParsedRequest,
+  WhereClause,
+  WhereCondition,
+} from "./types";
+import { ProblemDetails, ValidationError } from "./errors";
+import { SchemaRegistry } from "./schema";
+
+const DEFAULT_WEIGHTS: CostWeights = {
+  base: 1,
+  join: 10,
+  unboundedRead: 20,
+  leadingWildcard: 15,
+  regexp: 15,
+  unindexedFilter: 5,
+};
+
+const DEFAULT_CLAMP_LIMIT = 100;
+
+export interface CostEstimate {
+  cost: number;
+  /** What the cost is made of, e.g. `{ "join": 20, "base": 1 }` */
+  factors: Partial<Record<keyof CostWeights, number>>;
+}
+
+/**
+ * A query above the cost budget. `cost` and `budget` are included in the
+ * problem details
+ */
+export class QueryCostError extends ValidationError {
+  constructor(readonly estimate: CostEstimate, readonly budget: number) {
+    const factors = Object.entries(estimate.factors)
+      .map(([factor, cost]) => `${factor} ${cost}`)
+      .join(", ");
+    super(
+      `Query cost ${estimate.cost} exceeds the budget of ${budget} (${factors})`,
+      { code: "QUERY_TOO_COSTLY" }
+    );
+    this.name = "QueryCostError";
+  }
+
+  get cost(): number {
+    return this.estimate.cost;
+  }
+
+  toProblem(): ProblemDetails & { cost: number; budget: number } {
+    return { ...super.toProblem(), cost: this.cost, budget: this.budget };
+  }
+}
+
+function countEmbeds(embeds: Embed[] = []): number {
+  return embeds.reduce(
+    (count, embed) => count + 1 + countEmbeds(embed.embeds),
+    0
+  );
+}
+
+function flatten(clauses: WhereClause[] = []): WhereCondition[] {
+  return clauses.flatMap((clause) =>
+    "conditions" in clause ? flatten(clause.conditions) : [clause]
+  );
+}
+
+/**
+ * Scores parsed requests by the constructs that tend to make the database
+ * scan: joins and embedded tables, unbounded reads, leading-wildcard LIKE,
+ * REGEXP and, with a schema, filters on columns without an index
+ */
+export class CostModel {
+  private weights: CostWeights;
+
+  constructor(private options: CostOptions, private schema?: SchemaRegistry) {
+    this.weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+  }
+
+  estimate(request: ParsedRequest): CostEstimate {
+    const factors: CostEstimate["factors"] = {};
+    const add = (factor: keyof CostWeights, count = 1) => {
+      const cost = this.weights[factor] * count;
+      if (cost > 0) {
+        factors[factor] = (factors[factor] ?? 0) + cost;
+      }
+    };
+
+    add("base");
+    // Embedded tables are read by a correlated subquery each
+    add("join", (request.joins?.length ?? 0) + countEmbeds(request.embeds));
+    if (request.operation === "READ" && request.limit === undefined) {
+      add("unboundedRead");
+    }
+
+    const where = flatten(request.where);
+    for (const { operator, value } of [...where, ...flatten(request.having)]) {
+      if (
+        (operator === "LIKE" || operator === "NOT LIKE") &&
+        typeof value === "string" &&
+        /^[%_]/.test(value)
+      ) {
+        add("leadingWildcard");
+      } else if (operator === "REGEXP" || operator === "NOT REGEXP") {
+        add("regexp");
+      }
+    }
+    add(
+      "unindexedFilter",
+      where.filter(({ field }) => !this.isIndexed(request, field)).length
+    );
+
+    const cost = Object.values(factors).reduce(
+      (total, factor) => total + factor,
+      0
+    );
+    return { cost, factors };
+  }
+
+  /**
+   * Reject a request above the budget, or clamp it first when configured
+   */
+  enforce(request: ParsedRequest): ParsedRequest {
+    const { budget, onExceed = "reject" } = this.options;
+    const estimate = this.estimate(request);
+    if (estimate.cost <= budget) {
+      return request;
+    }
+
+    if (
+      onExceed === "clamp" &&
+      request.operation === "READ" &&
+      request.limit === undefined
+    ) {
+      const clamped = {
+        ...request,
+        limit: this.options.clampLimit ?? DEFAULT_CLAMP_LIMIT,
+      };
+      const reestimate = this.estimate(clamped);
+      if (reestimate.cost <= budget) {
+        return clamped;
+      }
+      throw new QueryCostError(reestimate, budget);
+    }
+    throw new QueryCostError(estimate, budget);
+  }
+
+  /**
+   * Columns of tables missing from the schema, or without a schema at all,
+   * are assumed to be indexed
+   */
+  private isIndexed(request: ParsedRequest, field: string): boolean {
+    if (!this.schema) {
+      return true;
+    }
+    const separator = field.lastIndexOf(".");
+    const qualifier =
+      separator === -1 ? request.table : field.slice(0, separator);
+    const table =
+      request.joins?.find((join) => (join.alias || join.table) === qualifier)
+        ?.table ?? qualifier;
+    return (
+      !this.schema.hasTable(table) ||
+      this.schema.isIndexed(table, field.slice(separator + 1))
+    );
+  }
+}
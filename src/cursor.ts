@@ -0,0 +1,42 @@
+import { OrderByClause } from "./types";
+import { ValidationError } from "./errors";
+
+/**
+ * Row key holding the value of an orderBy field. Drivers return qualified
+ * columns ("users.id") under their bare name
+ */
+function rowKey(field: string): string {
+  return field.slice(field.lastIndexOf(".") + 1);
+}
+
+/**
+ * Encode the position of a row in a result ordered by `orderBy`. Pass the
+ * last row of a page as `after` to get the next page, or the first row as
+ * `before` to get the previous one
+ */
+export function encodeCursor(
+  row: Record<string, any>,
+  orderBy: OrderByClause[]
+): string {
+  if (orderBy.length === 0) {
+    throw new Error("Cursors require an orderBy clause");
+  }
+  const values = orderBy.map((order) => {
+    const value = row[rowKey(order.field)];
+    return value instanceof Date ? value.toISOString() : value;
+  });
+  return Buffer.from(JSON.stringify(values)).toString("base64");
+}
+
+export function decodeCursor(cursor: string): any[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, "base64").toString());
+  } catch {
+    throw new ValidationError("Invalid cursor", { code: "INVALID_CURSOR" });
+  }
+  if (!Array.isArray(values)) {
+    throw new ValidationError("Invalid cursor", { code: "INVALID_CURSOR" });
+  }
+  return values;
+}
@@ -0,0 +1,3 @@
+export * from "./pg";
+export * from "./mysql";
+export * from "./sqlite";
@@ -0,0 +1,37 @@
+import { Driver } from "../types";
+
+/**
+ * Header returned by `mysql2` for statements that don't produce rows
+ */
+export interface MysqlResultHeader {
+  affectedRows: number;
+  insertId: number;
+}
+
+/**
+ * The part of a `mysql2/promise` Pool or Connection used by the driver
+ */
+export interface MysqlQueryable {
+  execute(
+    sql: string,
+    params: any[]
+  ): Promise<[Record<string, any>[] | MysqlResultHeader, unknown]>;
+}
+
+export function createMysqlDriver(connection: MysqlQueryable): Driver {
+  return {
+    dialect: "mysql",
+    async execute(sql, params) {
+      const [result] = await connection.execute(sql, params);
+      if (Array.isArray(result)) {
+        return { rows: result, rowCount: result.length };
+      }
+      return {
+        rows: [],
+        rowCount: result.affectedRows,
+        // MySQL reports 0 when no id was generated
+        insertId: result.insertId || undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { Driver } from "../types";
+
+/**
+ * The part of a `pg` Pool, PoolClient or Client used by the driver
+ */
+export interface PgQueryable {
+  query(
+    sql: string,
+    params: any[]
+  ): Promise<{ rows: Record<string, any>[]; rowCount: number | null }>;
+}
+
+export function createPgDriver(client: PgQueryable): Driver {
+  return {
+    dialect: "postgres",
+    async execute(sql, params) {
+      const result = await client.query(sql, params);
+      return {
+        rows: result.rows,
+        rowCount: result.rowCount ?? result.rows.length,
+      };
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { Driver } from "../types";
+
+/**
+ * The part of a `better-sqlite3` Database used by the driver
+ */
+export interface SqliteDatabase {
+  prepare(sql: string): {
+    reader: boolean;
+    all(...params: any[]): unknown[];
+    run(...params: any[]): {
+      changes: number;
+      lastInsertRowid: number | bigint;
+    };
+  };
+}
+
+/**
+ * SQLite only binds numbers, strings, bigints, buffers and null
+ */
+function toSqliteValue(value: any): any {
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value;
+}
+
+export function createSqliteDriver(db: SqliteDatabase): Driver {
+  return {
+    dialect: "sqlite",
+    async execute(sql, params) {
+      const statement = db.prepare(sql);
+      const values = params.map(toSqliteValue);
+
+      // SELECT and statements with RETURNING produce rows
+      if (statement.reader) {
+        const rows = statement.all(...values) as Record<string, any>[];
+        return { rows, rowCount: rows.length };
+      }
+
+      const { changes, lastInsertRowid } = statement.run(...values);
+      const isInsert = /^\s*INSERT\b/i.test(sql);
+      return {
+        rows: [],
+        rowCount: changes,
+        // SQLite reports the last id of a multi-row insert, report the first
+        insertId:
+          isInsert && changes > 0
+            ? Number(lastInsertRowid) - changes + 1
+            : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Stable, machine-readable error codes
+ */
+export type ErrorCode =
+  /** Malformed query encoding or structure */
+  | "INVALID_QUERY"
+  | "INVALID_FIELD"
+  | "INVALID_TABLE"
+  | "INVALID_ALIAS"
+  | "INVALID_VALUE"
+  | "INVALID_KEY"
+  | "INVALID_CURSOR"
+  | "INVALID_PAGINATION"
+  /** Operator, logical operator or aggregate function not allowed */
+  | "OPERATOR_NOT_ALLOWED"
+  | "QUERY_TOO_DEEP"
+  | "TOO_MANY_CONDITIONS"
+  | "TOO_MANY_FIELDS"
+  /** The query is above the configured cost budget */
+  | "QUERY_TOO_COSTLY"
+  | "UNKNOWN_TABLE"
+  | "UNKNOWN_COLUMN"
+  | "MISSING_VALUES"
+  /** An update or delete would affect every row of the table */
+  | "MISSING_FILTER"
+  /** The dialect has no equivalent for the requested feature */
+  | "UNSUPPORTED_FEATURE"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "METHOD_NOT_ALLOWED"
+  | "INTERNAL_ERROR";
+
+export interface RestQLErrorOptions {
+  code?: ErrorCode;
+  /** Suggested HTTP status */
+  status?: number;
+  /**
+   * Path of the offending node in the decoded query, e.g.
+   * `where.conditions[1].operator`
+   */
+  path?: string;
+}
+
+/**
+ * RFC 9457 problem details, served as `application/problem+json`
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  code: ErrorCode;
+  path?: string;
+}
+
+const STATUS_TITLES: Record<number, string> = {
+  400: "Bad Request",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  500: "Internal Server Error",
+};
+
+/**
+ * Base class of every error raised while turning a request into SQL
+ */
+export class RestQLError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  readonly path?: string;
+
+  constructor(message: string, options: RestQLErrorOptions = {}) {
+    super(message);
+    this.name = "RestQLError";
+    this.code = options.code ?? "INTERNAL_ERROR";
+    this.status = options.status ?? 500;
+    this.path = options.path;
+  }
+
+  toProblem(): ProblemDetails {
+    return {
+      type: "about:blank",
+      title: STATUS_TITLES[this.status] ?? this.name,
+      status: this.status,
+      detail: this.message,
+      code: this.code,
+      ...(this.path !== undefined && { path: this.path }),
+    };
+  }
+}
+
+/**
+ * The request asks for something that isn't allowed or doesn't exist
+ */
+export class ValidationError extends RestQLError {
+  constructor(message: string, options: RestQLErrorOptions = {}) {
+    super(message, { code: "INVALID_QUERY", status: 400, ...options });
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * The principal isn't allowed to do what the request asks
+ */
+export class ForbiddenError extends RestQLError {
+  constructor(message: string, options: RestQLErrorOptions = {}) {
+    super(message, { code: "FORBIDDEN", status: 403, ...options });
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends RestQLError {
+  constructor(message = "Not found") {
+    super(message, { code: "NOT_FOUND", status: 404 });
+    this.name = "NotFoundError";
+  }
+}
+
+export class MethodNotAllowedError extends RestQLError {
+  constructor(method: string) {
+    super(`Method ${method} is not supported`, {
+      code: "METHOD_NOT_ALLOWED",
+      status: 405,
+    });
+    this.name = "MethodNotAllowedError";
+  }
+}
+
+/**
+ * Problem details for any thrown value. Errors outside the hierarchy, such
+ * as database errors, may leak schema details and get a generic message
+ */
+export function toProblemDetails(error: unknown): ProblemDetails {
+  if (error instanceof RestQLError) {
+    return error.toProblem();
+  }
+  return new RestQLError("Internal server error").toProblem();
+}
+
+/**
+ * Append a property or index to a query path
+ */
+export function joinPath(
+  path: string | undefined,
+  key: string | number
+): string {
+  if (typeof key === "number") {
+    return `${path ?? ""}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
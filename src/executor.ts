@@ -0,0 +1,90 @@
+import { Driver, QueryResult, RestQLResponse } from "./types";
+import { SQLBuilder } from "./sqlBuilder";
+import { maskRows } from "./masking";
+
+/**
+ * Run a built statement with a driver, fetching the affected rows through
+ * the returning fallback on MySQL, restoring the order of rows read
+ * backwards from a `before` cursor, parsing embedded rows, masking redacted
+ * columns and reporting the effective limit
+ */
+export async function executeStatement(
+  driver: Driver,
+  sqlBuilder: SQLBuilder,
+  statement: RestQLResponse
+): Promise<QueryResult> {
+  const result = await run(driver, sqlBuilder, statement);
+  const { masks, limit, embeds } = statement.meta ?? {};
+  let { rows } = result;
+  if (embeds) {
+    rows = parseEmbeds(rows, embeds);
+  }
+  if (masks) {
+    rows = maskRows(rows, masks);
+  }
+  return { ...result, rows, ...(limit !== undefined && { limit }) };
+}
+
+/**
+ * SQLite and SQL Server return embedded rows as JSON text, PostgreSQL and
+ * MySQL drivers parse them already
+ */
+function parseEmbeds(
+  rows: Record<string, any>[],
+  embeds: string[]
+): Record<string, any>[] {
+  return rows.map((row) => {
+    const parsed = { ...row };
+    for (const column of embeds) {
+      if (typeof parsed[column] === "string") {
+        parsed[column] = JSON.parse(parsed[column]);
+      }
+    }
+    return parsed;
+  });
+}
+
+async function run(
+  driver: Driver,
+  sqlBuilder: SQLBuilder,
+  statement: RestQLResponse
+): Promise<QueryResult> {
+  const { sql, params, returning, meta } = statement;
+
+  if (!returning) {
+    const result = await driver.execute(sql, params);
+    return meta?.reversed
+      ? { ...result, rows: [...result.rows].reverse() }
+      : result;
+  }
+
+  switch (returning.strategy) {
+    case "select-before": {
+      const selected = returning.select
+        ? await driver.execute(returning.select.sql, returning.select.params)
+        : undefined;
+      const result = await driver.execute(sql, params);
+      return { ...result, rows: selected?.rows ?? [] };
+    }
+    case "select-after": {
+      const result = await driver.execute(sql, params);
+      const selected = returning.select
+        ? await driver.execute(returning.select.sql, returning.select.params)
+        : undefined;
+      return { ...result, rows: selected?.rows ?? [] };
+    }
+    case "select-inserted": {
+      const result = await driver.execute(sql, params);
+      if (result.insertId === undefined || result.rowCount === 0) {
+        return { ...result, rows: [] };
+      }
+      const select = sqlBuilder.buildInsertedSelect(
+        returning,
+        result.insertId,
+        result.rowCount
+      );
+      const selected = await driver.execute(select.sql, select.params);
+      return { ...result, rows: selected.rows };
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import { ForbiddenError } from "./errors";
+import {
+  Embed,
+  FieldMappingConfig,
+  OrderByClause,
+  ParsedRequest,
+  SelectField,
+  WhereClause,
+} from "./types";
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * `createdAt` → `created_at`, `userID` → `user_id`
+ */
+export function toSnakeCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .toLowerCase();
+}
+
+/**
+ * Translates the API field names of a parsed request to database columns,
+ * as the last step before `SQLBuilder`. Selected and returned columns are
+ * aliased back to their API names, so schema, permissions, policies and
+ * results all speak API names. A `*` select without a schema can't be
+ * aliased and returns the column names
+ */
+export class FieldMapper {
+  constructor(private config: FieldMappingConfig) {}
+
+  /**
+   * Column name of an API field of `table`
+   */
+  toColumn(table: string, name: string): string {
+    if (this.isExplicit(table, name)) {
+      return (this.config.tables ?? {})[table][name];
+    }
+    return this.config.strategy === "snake_case" ? toSnakeCase(name) : name;
+  }
+
+  private isExplicit(table: string, name: string): boolean {
+    const { tables = {} } = this.config;
+    return hasOwn(tables, table) && hasOwn(tables[table], name);
+  }
+
+  apply(request: ParsedRequest): ParsedRequest {
+    const { table, joins } = request;
+    // Qualifiers a field may carry, mapped to their table
+    const sources = new Map([[table, table]]);
+    joins?.forEach((join) => sources.set(join.alias || join.table, join.table));
+
+    const field = (name: string): string => {
+      const separator = name.lastIndexOf(".");
+      if (separator !== -1) {
+        const qualifier = name.slice(0, separator);
+        const column = this.toColumn(
+          sources.get(qualifier) ?? qualifier,
+          name.slice(separator + 1)
+        );
+        return `${qualifier}.${column}`;
+      }
+      // Unqualified fields belong to the first table naming them explicitly
+      const owner =
+        Array.from(sources.values()).find((source) =>
+          this.isExplicit(source, name)
+        ) ?? table;
+      return this.toColumn(owner, name);
+    };
+
+    // Aggregate aliases are result names rather than columns
+    const aliases = new Set(
+      (request.fields ?? []).flatMap((f) =>
+        typeof f === "object" && f.fn && f.as ? [f.as] : []
+      )
+    );
+    const fieldOrAlias = (name: string) =>
+      aliases.has(name) ? name : field(name);
+    const order = (clauses?: OrderByClause[]) =>
+      clauses?.map((clause) => ({
+        ...clause,
+        field: fieldOrAlias(clause.field),
+      }));
+    const where = (clauses?: WhereClause[], map = field) =>
+      clauses?.map((clause) => this.mapWhere(clause, map));
+
+    // Masks are keyed by API name, which a "*" without a schema doesn't
+    // return for renamed columns
+    const star = [...(request.fields ?? []), ...(request.returning ?? [])].some(
+      (selected) => selected === "*"
+    );
+    const renamed = Object.keys(request.masks ?? {}).find(
+      (name) => field(name) !== name
+    );
+    if (star && renamed) {
+      throw new ForbiddenError(
+        `Select columns explicitly, "*" would return the masked column "${renamed}" unmasked`
+      );
+    }
+
+    return {
+      ...request,
+      fields: this.mapSelect(request.fields, field),
+      returning: this.mapSelect(request.returning, field),
+      embeds: request.embeds?.map((embed) => this.mapEmbed(embed, table)),
+      where: where(request.where),
+      ancestors: request.ancestors?.map((ancestor) => ({
+        ...ancestor,
+        where: ancestor.where.map((condition) => ({
+          ...condition,
+          field: this.toColumn(ancestor.table, condition.field),
+        })),
+      })),
+      policy: where(request.policy),
+      having: where(request.having, fieldOrAlias),
+      joins: joins?.map((join) => ({
+        ...join,
+        on: join.on.map((clause) =>
+          this.mapWhere(clause, field, (value) =>
+            // Join conditions compare against columns written as
+            // table.column, other strings are plain values
+            typeof value === "string" &&
+            value.includes(".") &&
+            sources.has(value.slice(0, value.lastIndexOf(".")))
+              ? field(value)
+              : value
+          )
+        ),
+      })),
+      groupBy: request.groupBy?.map(field),
+      orderBy: order(request.orderBy),
+      values: request.values?.map((row) =>
+        Object.fromEntries(
+          Object.entries(row).map(([name, value]) => [field(name), value])
+        )
+      ),
+      reset:
+        request.reset &&
+        Object.fromEntries(
+          Object.entries(request.reset).map(([name, value]) => [
+            field(name),
+            value,
+          ])
+        ),
+      primaryKey: request.primaryKey?.map(field),
+      onConflict: request.onConflict && {
+        ...request.onConflict,
+        target: request.onConflict.target?.map(field),
+        update: request.onConflict.update?.map(field),
+      },
+    };
+  }
+
+  /**
+   * Map selected columns, aliasing the renamed ones back to the API name
+   */
+  private mapSelect(
+    fields: SelectField[] | undefined,
+    field: (name: string) => string
+  ): SelectField[] | undefined {
+    return fields?.map((selected): SelectField => {
+      const name = typeof selected === "object" ? selected.field : selected;
+      if (name === "*") {
+        return selected;
+      }
+      const column = field(name);
+      if (typeof selected === "object") {
+        // Aggregates keep the name the database gives them
+        return selected.as || selected.fn || column === name
+          ? { ...selected, field: column }
+          : { field: column, as: name.slice(name.lastIndexOf(".") + 1) };
+      }
+      return column === name
+        ? name
+        : { field: column, as: name.slice(name.lastIndexOf(".") + 1) };
+    });
+  }
+
+  private mapEmbed(embed: Embed, parent: string): Embed {
+    const { table } = embed;
+    const field = (name: string) => this.toColumn(table, name);
+    return {
+      ...embed,
+      fields: this.mapSelect(embed.fields, field) ?? [],
+      embeds: embed.embeds?.map((nested) => this.mapEmbed(nested, table)),
+      join: embed.join?.map(([own, referenced]) => [
+        field(own),
+        this.toColumn(parent, referenced),
+      ]),
+      policy: embed.policy?.map((clause) => this.mapWhere(clause, field)),
+    };
+  }
+
+  private mapWhere(
+    clause: WhereClause,
+    field: (name: string) => string,
+    value: (value: any) => any = (v) => v
+  ): WhereClause {
+    if ("conditions" in clause) {
+      return {
+        ...clause,
+        conditions: clause.conditions.map((condition) =>
+          this.mapWhere(condition, field, value)
+        ),
+      };
+    }
+    return {
+      ...clause,
+      field: field(clause.field),
+      ...("value" in clause && { value: value(clause.value) }),
+    };
+  }
+}
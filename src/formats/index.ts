@@ -0,0 +1,60 @@
+import { decodeQuery } from "./json";
+import { parsePostgrestQuery } from "./postgrest";
+import { parseODataQuery } from "./odata";
+import { parseRsqlQuery } from "./rsql";
+
+export * from "./json";
+export * from "./postgrest";
+export * from "./odata";
+export * from "./rsql";
+
+/**
+ * Query string syntax read by the adapters:
+ * - "json": base64-encoded query options in `?q=`
+ * - "postgrest": plain parameters, see `parsePostgrestQuery`
+ * - "odata": `$filter`, `$select` and the other system query options, see
+ *   `parseODataQuery`
+ * - "rsql": an RSQL/FIQL expression in `?filter=`, see `parseRsqlQuery`
+ */
+export type QueryFormat = "json" | "postgrest" | "odata" | "rsql";
+
+/**
+ * Query string parameters from a framework's parsed query object
+ */
+export function toSearchParams(
+  query: Record<string, unknown> = {}
+): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (typeof item === "string") {
+        params.append(key, item);
+      }
+    }
+  }
+  return params;
+}
+
+/**
+ * Read the query options of a request, or undefined when the query string
+ * carries none
+ */
+export function parseQueryParams(
+  params: URLSearchParams,
+  format: QueryFormat = "json"
+): unknown {
+  switch (format) {
+    case "json": {
+      const q = params.get("q");
+      return q ? decodeQuery(q) : undefined;
+    }
+    case "postgrest":
+      return [...params].length > 0 ? parsePostgrestQuery(params) : undefined;
+    case "odata":
+      return [...params.keys()].some((key) => key.startsWith("$"))
+        ? parseODataQuery(params)
+        : undefined;
+    case "rsql":
+      return params.get("filter") ? parseRsqlQuery(params) : undefined;
+  }
+}
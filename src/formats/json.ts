@@ -0,0 +1,16 @@
+import { QueryValidationError } from "../queryValidator";
+
+/**
+ * Encode query options for the `?q=` parameter
+ */
+export function encodeQuery(query: any): string {
+  return Buffer.from(JSON.stringify(query)).toString("base64");
+}
+
+export function decodeQuery(queryStr: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(queryStr, "base64").toString());
+  } catch {
+    throw new QueryValidationError("Invalid base64 or JSON format");
+  }
+}
@@ -0,0 +1,365 @@
+import {
+  Operator,
+  OrderByClause,
+  QueryOptions,
+  WhereClause,
+  WhereGroup,
+} from "../types";
+import { QueryValidationError } from "../queryValidator";
+
+type Token =
+  | { type: "identifier"; value: string; position: number }
+  | {
+      type: "literal";
+      value: string | number | boolean | null;
+      position: number;
+    }
+  | { type: "punctuation"; value: "(" | ")" | ","; position: number };
+
+const COMPARISON_OPERATORS: Record<string, Operator> = {
+  eq: "=",
+  ne: "!=",
+  gt: ">",
+  ge: ">=",
+  lt: "<",
+  le: "<=",
+};
+
+/** Match the argument literally inside a LIKE pattern */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/** String functions translated to LIKE patterns */
+const LIKE_FUNCTIONS: Record<string, (value: string) => string> = {
+  contains: (value) => `%${escapeLike(value)}%`,
+  startswith: (value) => `${escapeLike(value)}%`,
+  endswith: (value) => `%${escapeLike(value)}`,
+};
+
+const SUPPORTED_OPTIONS = [
+  "$filter",
+  "$select",
+  "$orderby",
+  "$top",
+  "$skip",
+  "$count",
+];
+
+const TOKEN_PATTERNS: [RegExp, (match: string) => Token["value"]][] = [
+  // Dates and timestamps are unquoted in OData
+  [
+    /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?/,
+    (match) => match,
+  ],
+  [/^-?\d+(\.\d+)?/, Number],
+  [/^'(?:[^']|'')*'/, (match) => match.slice(1, -1).replace(/''/g, "'")],
+];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < input.length) {
+    const rest = input.slice(position);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+    if (rest[0] === "(" || rest[0] === ")" || rest[0] === ",") {
+      tokens.push({ type: "punctuation", value: rest[0], position });
+      position++;
+      continue;
+    }
+
+    const literal = TOKEN_PATTERNS.map(
+      ([pattern, read]) => [rest.match(pattern), read] as const
+    ).find(([match]) => match);
+    if (literal) {
+      const [match, read] = literal as [RegExpMatchArray, (typeof literal)[1]];
+      tokens.push({ type: "literal", value: read(match[0]), position });
+      position += match[0].length;
+      continue;
+    }
+
+    const identifier = rest.match(/^[A-Za-z_][\w./]*/);
+    if (!identifier) {
+      throw new QueryValidationError(
+        `Unexpected character "${rest[0]}" at position ${position}`,
+        { path: "$filter" }
+      );
+    }
+    const word = identifier[0];
+    if (word === "true" || word === "false") {
+      tokens.push({ type: "literal", value: word === "true", position });
+    } else if (word === "null") {
+      tokens.push({ type: "literal", value: null, position });
+    } else {
+      // Navigation paths use "/", qualified fields use "."
+      tokens.push({
+        type: "identifier",
+        value: word.replace(/\//g, "."),
+        position,
+      });
+    }
+    position += word.length;
+  }
+  return tokens;
+}
+
+/**
+ * Recursive descent over `or`, `and`, `not`, comparisons, `in` lists and
+ * the string functions, binding in that order from loosest to tightest
+ */
+function parseFilter(input: string): WhereClause {
+  const tokens = tokenize(input);
+  let index = 0;
+
+  function fail(message: string, token = tokens[index]): never {
+    const at = token
+      ? ` at position ${token.position}`
+      : " at the end of the expression";
+    throw new QueryValidationError(`${message}${at}`, { path: "$filter" });
+  }
+
+  function isKeyword(keyword: string): boolean {
+    const token = tokens[index];
+    return token?.type === "identifier" && token.value === keyword;
+  }
+
+  function isPunctuation(value: "(" | ")" | ","): boolean {
+    const token = tokens[index];
+    return token?.type === "punctuation" && token.value === value;
+  }
+
+  function expect(value: "(" | ")" | ","): void {
+    if (!isPunctuation(value)) {
+      fail(`Expected "${value}"`);
+    }
+    index++;
+  }
+
+  function literal(): string | number | boolean | null {
+    const token = tokens[index];
+    if (token?.type !== "literal") {
+      fail("Expected a literal value");
+    }
+    index++;
+    return token.value;
+  }
+
+  function identifier(): string {
+    const token = tokens[index];
+    if (token?.type !== "identifier") {
+      fail("Expected a property name");
+    }
+    index++;
+    return token.value;
+  }
+
+  function group(operator: "AND" | "OR", next: () => WhereClause) {
+    return (): WhereClause => {
+      const keyword = operator.toLowerCase();
+      const conditions = [next()];
+      while (isKeyword(keyword)) {
+        index++;
+        conditions.push(next());
+      }
+      return conditions.length === 1 ? conditions[0] : { operator, conditions };
+    };
+  }
+
+  function call(name: string): WhereClause {
+    const like = LIKE_FUNCTIONS[name];
+    if (!like) {
+      throw new QueryValidationError(
+        `OData function "${name}" is not supported`,
+        { code: "OPERATOR_NOT_ALLOWED", path: "$filter" }
+      );
+    }
+    expect("(");
+    const field = identifier();
+    expect(",");
+    const value = literal();
+    expect(")");
+    if (typeof value !== "string") {
+      fail(`${name} expects a string`);
+    }
+
+    // `contains(Name,'x') eq false` negates the match
+    let negated = false;
+    if (isKeyword("eq") || isKeyword("ne")) {
+      const operator = identifier();
+      const expected = literal();
+      if (typeof expected !== "boolean") {
+        fail(`${name} can only be compared with true or false`);
+      }
+      negated = expected !== (operator === "eq");
+    }
+    return {
+      field,
+      operator: negated ? "NOT LIKE" : "LIKE",
+      value: like(value),
+    };
+  }
+
+  function comparison(): WhereClause {
+    if (isPunctuation("(")) {
+      index++;
+      const clause = or();
+      expect(")");
+      return clause;
+    }
+
+    const field = identifier();
+    if (isPunctuation("(")) {
+      return call(field.toLowerCase());
+    }
+
+    if (isKeyword("in")) {
+      index++;
+      expect("(");
+      const values = [literal()];
+      while (isPunctuation(",")) {
+        index++;
+        values.push(literal());
+      }
+      expect(")");
+      return { field, operator: "IN", value: values };
+    }
+
+    const next = tokens[index];
+    const name = identifier();
+    const operator = COMPARISON_OPERATORS[name];
+    if (!operator) {
+      fail(`Unsupported operator "${name}"`, next);
+    }
+    const value = literal();
+    if (value === null && (operator === "=" || operator === "!=")) {
+      return {
+        field,
+        operator: operator === "=" ? "IS NULL" : "IS NOT NULL",
+        value: null,
+      };
+    }
+    return { field, operator, value };
+  }
+
+  function not(): WhereClause {
+    if (!isKeyword("not")) {
+      return comparison();
+    }
+    index++;
+    const clause = not();
+    const negated: WhereGroup =
+      "conditions" in clause
+        ? { ...clause, not: !clause.not }
+        : { operator: "AND", conditions: [clause], not: true };
+    return negated;
+  }
+
+  const and = group("AND", not);
+  const or = group("OR", and);
+
+  const clause = or();
+  if (index < tokens.length) {
+    fail(`Unexpected "${tokens[index].value}"`);
+  }
+  return clause;
+}
+
+function parseList(value: string): string[] {
+  return value.split(",").map((item) => item.trim().replace(/\//g, "."));
+}
+
+function parseOrderBy(value: string): OrderByClause[] {
+  return parseList(value).map((item, i) => {
+    const match = item.match(/^([A-Za-z_][\w.]*)(?:\s+(asc|desc))?$/i);
+    if (!match) {
+      throw new QueryValidationError(`Invalid $orderby item "${item}"`, {
+        path: `$orderby[${i}]`,
+      });
+    }
+    return {
+      field: match[1],
+      direction: match[2]?.toLowerCase() === "desc" ? "DESC" : "ASC",
+    };
+  });
+}
+
+function parseCount(value: string, option: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new QueryValidationError(`${option} must be a non-negative integer`, {
+      code: "INVALID_PAGINATION",
+      path: option,
+    });
+  }
+  return Number(value);
+}
+
+/**
+ * Parse OData system query options into query options:
+ * `?$filter=Age gt 18 and (City eq 'NY' or City eq 'LA')&$select=Id,Name&$orderby=Name desc&$top=10&$skip=20`
+ *
+ * `$count=true` selects the number of matching rows instead of the rows.
+ * Parameters without a `$` prefix are left to the application
+ */
+export function parseODataQuery(params: URLSearchParams): QueryOptions {
+  const query: QueryOptions = {};
+  let count = false;
+
+  for (const [key, value] of params) {
+    if (!key.startsWith("$")) continue;
+    if (!SUPPORTED_OPTIONS.includes(key)) {
+      throw new QueryValidationError(`OData option ${key} is not supported`, {
+        code: "UNSUPPORTED_FEATURE",
+        path: key,
+      });
+    }
+
+    switch (key) {
+      case "$filter": {
+        const clause = parseFilter(value);
+        // A top-level `and` becomes the implicitly AND-ed where list
+        query.where =
+          "conditions" in clause && clause.operator === "AND" && !clause.not
+            ? clause.conditions
+            : [clause];
+        break;
+      }
+      case "$select":
+        query.select = parseList(value);
+        break;
+      case "$orderby":
+        query.orderBy = parseOrderBy(value);
+        break;
+      case "$top":
+        query.limit = parseCount(value, key);
+        break;
+      case "$skip":
+        query.offset = parseCount(value, key);
+        break;
+      case "$count":
+        if (value !== "true" && value !== "false") {
+          throw new QueryValidationError("$count must be true or false", {
+            path: key,
+          });
+        }
+        count = value === "true";
+        break;
+    }
+  }
+
+  if (count) {
+    if (query.select) {
+      throw new QueryValidationError("$count can't be combined with $select", {
+        path: "$count",
+      });
+    }
+    return {
+      select: [{ fn: "count", field: "*", as: "count" }],
+      ...(query.where && { where: query.where }),
+    };
+  }
+  return query;
+}
@@ -0,0 +1,279 @@
+import {
+  AggregateFunction,
+  EmbedSelect,
+  Operator,
+  OrderByClause,
+  QueryOptions,
+  SelectField,
+  WhereClause,
+  WhereCondition,
+} from "../types";
+import { QueryValidationError } from "../queryValidator";
+
+const FILTER_OPERATORS: Record<string, Operator> = {
+  eq: "=",
+  neq: "!=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  like: "LIKE",
+  in: "IN",
+  is: "IS NULL",
+  match: "REGEXP",
+};
+
+const NEGATED_OPERATORS: Partial<Record<Operator, Operator>> = {
+  "=": "!=",
+  "!=": "=",
+  ">": "<=",
+  ">=": "<",
+  "<": ">=",
+  "<=": ">",
+  LIKE: "NOT LIKE",
+  IN: "NOT IN",
+  "IS NULL": "IS NOT NULL",
+  REGEXP: "NOT REGEXP",
+};
+
+const LOGIC_PARAM = /^(not\.)?(and|or)$/;
+const LOGIC_ITEM = /^(not\.)?(and|or)\((.*)\)$/s;
+const AGGREGATE_ITEM = /^(?:(.+)\.)?(count|sum|avg|min|max)\(\)$/;
+const EMBED_ITEM = /^([A-Za-z_][A-Za-z0-9_]*)\((.*)\)$/s;
+
+/**
+ * Split on commas outside parentheses and double quotes
+ */
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === "\\" && quoted) {
+      current += char + (input[++i] ?? "");
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === "(") depth++;
+    if (!quoted && char === ")") depth--;
+    if (!quoted && depth === 0 && char === ",") {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1).replace(/\\(.)/g, "$1")
+    : value;
+}
+
+function unwrap(value: string, path: string): string {
+  if (!value.startsWith("(") || !value.endsWith(")")) {
+    throw new QueryValidationError(`Expected a parenthesized list`, { path });
+  }
+  return value.slice(1, -1);
+}
+
+/**
+ * `select=id,name,author:user_id,total:amount.sum(),count(),orders(id,total)`
+ */
+function parseSelect(
+  value: string,
+  parent = "select"
+): (SelectField | EmbedSelect)[] {
+  return splitTopLevel(value).map((item, i): SelectField | EmbedSelect => {
+    const path = `${parent}[${i}]`;
+    const separator = item.indexOf(":");
+    const as = separator === -1 ? undefined : item.slice(0, separator);
+    const expression = separator === -1 ? item : item.slice(separator + 1);
+    if (!expression || as === "") {
+      throw new QueryValidationError(`Invalid select item "${item}"`, {
+        path,
+      });
+    }
+
+    const aggregate = expression.match(AGGREGATE_ITEM);
+    if (aggregate) {
+      return {
+        fn: aggregate[2] as AggregateFunction,
+        field: aggregate[1] ?? "*",
+        ...(as !== undefined && { as }),
+      };
+    }
+    const embed = expression.match(EMBED_ITEM);
+    if (embed) {
+      if (as !== undefined) {
+        throw new QueryValidationError(
+          `Embedded table "${embed[1]}" can't be aliased`,
+          { path }
+        );
+      }
+      return { [embed[1]]: parseSelect(embed[2], `${path}.${embed[1]}`) };
+    }
+    return as === undefined ? expression : { field: expression, as };
+  });
+}
+
+/**
+ * `order=created_at.desc,name`
+ */
+function parseOrder(value: string): OrderByClause[] {
+  return splitTopLevel(value).map((item, i) => {
+    const match = item.match(/^(.+?)(?:\.(asc|desc))?$/);
+    if (!match || /\.nulls(first|last)$/.test(item)) {
+      throw new QueryValidationError(`Invalid order item "${item}"`, {
+        path: `order[${i}]`,
+      });
+    }
+    return {
+      field: match[1],
+      direction: match[2] === "desc" ? "DESC" : "ASC",
+    };
+  });
+}
+
+function parseCount(value: string, key: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new QueryValidationError(`${key} must be a non-negative integer`, {
+      code: "INVALID_PAGINATION",
+      path: key,
+    });
+  }
+  return Number(value);
+}
+
+/**
+ * A filter such as `gt.18`, `in.(a,b)`, `is.null` or `not.like.*son`
+ */
+function parseFilter(
+  field: string,
+  filter: string,
+  path: string
+): WhereCondition {
+  const negated = filter.startsWith("not.");
+  const rest = negated ? filter.slice(4) : filter;
+  const separator = rest.indexOf(".");
+  if (separator === -1) {
+    throw new QueryValidationError(`Invalid filter "${filter}"`, { path });
+  }
+  const name = rest.slice(0, separator);
+  const raw = rest.slice(separator + 1);
+
+  let operator = FILTER_OPERATORS[name];
+  if (!operator) {
+    throw new QueryValidationError(`Unsupported filter operator "${name}"`, {
+      code: "OPERATOR_NOT_ALLOWED",
+      path,
+    });
+  }
+
+  let value: any;
+  switch (name) {
+    case "in":
+      value = splitTopLevel(unwrap(raw, path)).map(unquote);
+      break;
+    case "is":
+      if (raw === "null") {
+        value = null;
+      } else if (raw === "true" || raw === "false") {
+        operator = "=";
+        value = raw === "true";
+      } else {
+        throw new QueryValidationError(`Invalid "is" value "${raw}"`, {
+          path,
+        });
+      }
+      break;
+    case "like":
+      value = unquote(raw).replace(/\*/g, "%");
+      break;
+    default:
+      value = unquote(raw);
+  }
+
+  if (negated) {
+    operator = NEGATED_OPERATORS[operator] ?? operator;
+  }
+  return { field, operator, value };
+}
+
+/**
+ * `or=(age.gt.18,and(status.eq.active,verified.is.true))`
+ */
+function parseLogic(key: string, value: string, path: string): WhereClause {
+  const [, not, operator] = key.match(LOGIC_PARAM) as RegExpMatchArray;
+  const conditions = splitTopLevel(unwrap(value, path)).map((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    const group = item.match(LOGIC_ITEM);
+    if (group) {
+      return parseLogic(
+        `${group[1] ?? ""}${group[2]}`,
+        `(${group[3]})`,
+        itemPath
+      );
+    }
+    const separator = item.indexOf(".");
+    if (separator === -1) {
+      throw new QueryValidationError(`Invalid condition "${item}"`, {
+        path: itemPath,
+      });
+    }
+    return parseFilter(
+      item.slice(0, separator),
+      item.slice(separator + 1),
+      itemPath
+    );
+  });
+
+  return {
+    operator: operator === "or" ? "OR" : "AND",
+    conditions,
+    ...(not && { not: true }),
+  };
+}
+
+/**
+ * Parse PostgREST-style query parameters into query options:
+ * `?select=id,name&age=gt.18&status=in.(active,pending)&order=created_at.desc&limit=10`
+ *
+ * Every parameter other than `select`, `order`, `limit`, `offset`, `and` and
+ * `or` filters the column it is named after. Error paths name the parameter
+ */
+export function parsePostgrestQuery(params: URLSearchParams): QueryOptions {
+  const query: QueryOptions = {};
+  const where: WhereClause[] = [];
+
+  for (const [key, value] of params) {
+    switch (key) {
+      case "select":
+        query.select = parseSelect(value);
+        break;
+      case "order":
+        query.orderBy = parseOrder(value);
+        break;
+      case "limit":
+      case "offset":
+        query[key] = parseCount(value, key);
+        break;
+      default:
+        where.push(
+          LOGIC_PARAM.test(key)
+            ? parseLogic(key, value, key)
+            : parseFilter(key, value, key)
+        );
+    }
+  }
+
+  if (where.length > 0) {
+    query.where = where;
+  }
+  return query;
+}
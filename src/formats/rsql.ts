@@ -0,0 +1,202 @@
+import { Operator, QueryOptions, WhereClause } from "../types";
+import { QueryValidationError } from "../queryValidator";
+
+const COMPARISON_OPERATORS: Record<string, Operator> = {
+  "==": "=",
+  "!=": "!=",
+  "=lt=": "<",
+  "<": "<",
+  "=le=": "<=",
+  "<=": "<=",
+  "=gt=": ">",
+  ">": ">",
+  "=ge=": ">=",
+  ">=": ">=",
+  "=in=": "IN",
+  "=out=": "NOT IN",
+  "=isnull=": "IS NULL",
+};
+
+/** Longest first, so `<=` wins over `<` */
+const COMPARATOR_PATTERN = /^(=[a-z]+=|==|!=|<=|>=|<|>)/;
+const UNRESERVED_PATTERN = /^[^"'();,=!~<>\s]+/;
+
+/**
+ * Recursive descent over `,` (OR), `;` (AND), parentheses and comparisons,
+ * following the grammar of https://github.com/jirutka/rsql-parser. The
+ * `and` and `or` keywords are accepted as aliases of `;` and `,`
+ */
+function parseExpression(input: string): WhereClause {
+  let position = 0;
+
+  function fail(message: string): never {
+    const at =
+      position < input.length
+        ? ` at position ${position}`
+        : " at the end of the expression";
+    throw new QueryValidationError(`${message}${at}`, { path: "filter" });
+  }
+
+  function skipSpaces(): void {
+    while (/\s/.test(input[position] ?? "")) position++;
+  }
+
+  function accept(token: string, keyword?: string): boolean {
+    skipSpaces();
+    if (input[position] === token) {
+      position++;
+      return true;
+    }
+    const word = input.slice(position).match(/^[a-z]+(?=\s)/);
+    if (keyword && word?.[0] === keyword) {
+      position += keyword.length;
+      return true;
+    }
+    return false;
+  }
+
+  function group(
+    operator: "AND" | "OR",
+    token: string,
+    next: () => WhereClause
+  ) {
+    return (): WhereClause => {
+      const conditions = [next()];
+      while (accept(token, operator.toLowerCase())) {
+        conditions.push(next());
+      }
+      return conditions.length === 1 ? conditions[0] : { operator, conditions };
+    };
+  }
+
+  function value(): string {
+    skipSpaces();
+    const quote = input[position];
+    if (quote === '"' || quote === "'") {
+      let result = "";
+      position++;
+      while (position < input.length && input[position] !== quote) {
+        if (input[position] === "\\") position++;
+        result += input[position++] ?? "";
+      }
+      if (input[position] !== quote) {
+        fail("Unterminated quoted value");
+      }
+      position++;
+      return result;
+    }
+    const match = input.slice(position).match(UNRESERVED_PATTERN);
+    if (!match) {
+      fail("Expected a value");
+    }
+    position += match[0].length;
+    return match[0];
+  }
+
+  function comparison(): WhereClause {
+    skipSpaces();
+    if (input[position] === "(") {
+      position++;
+      const clause = or();
+      skipSpaces();
+      if (input[position] !== ")") {
+        fail('Expected ")"');
+      }
+      position++;
+      return clause;
+    }
+
+    const selector = input.slice(position).match(UNRESERVED_PATTERN);
+    if (!selector) {
+      fail("Expected a selector");
+    }
+    const field = selector[0];
+    position += field.length;
+
+    const comparator = input.slice(position).match(COMPARATOR_PATTERN);
+    const operator = comparator && COMPARISON_OPERATORS[comparator[0]];
+    if (!operator) {
+      const name = comparator?.[0] ?? input[position] ?? "";
+      throw new QueryValidationError(
+        `Unsupported comparison operator "${name}" at position ${position}`,
+        { code: "OPERATOR_NOT_ALLOWED", path: "filter" }
+      );
+    }
+    position += comparator[0].length;
+
+    skipSpaces();
+    if (input[position] === "(") {
+      position++;
+      const values = [value()];
+      while (accept(",")) {
+        values.push(value());
+      }
+      skipSpaces();
+      if (input[position] !== ")") {
+        fail('Expected ")"');
+      }
+      position++;
+      if (operator !== "IN" && operator !== "NOT IN") {
+        fail(`"${comparator[0]}" takes a single value`);
+      }
+      return { field, operator, value: values };
+    }
+
+    const argument = value();
+    switch (operator) {
+      case "IN":
+      case "NOT IN":
+        return { field, operator, value: [argument] };
+      case "IS NULL":
+        if (argument !== "true" && argument !== "false") {
+          fail('"=isnull=" takes true or false');
+        }
+        return {
+          field,
+          operator: argument === "true" ? "IS NULL" : "IS NOT NULL",
+          value: null,
+        };
+      case "=":
+      case "!=":
+        // `*` wildcards turn equality into a pattern match
+        if (argument.includes("*")) {
+          return {
+            field,
+            operator: operator === "=" ? "LIKE" : "NOT LIKE",
+            value: argument.replace(/\*/g, "%"),
+          };
+        }
+    }
+    return { field, operator, value: argument };
+  }
+
+  const and = group("AND", ";", comparison);
+  const or = group("OR", ",", and);
+
+  const clause = or();
+  skipSpaces();
+  if (position < input.length) {
+    fail(`Unexpected "${input[position]}"`);
+  }
+  return clause;
+}
+
+/**
+ * Parse an RSQL/FIQL expression from the `filter` parameter into query
+ * options: `?filter=name==John;(age=gt=18,status=in=(a,b))`
+ *
+ * `;` joins conditions with AND and `,` with OR, AND binding tighter
+ */
+export function parseRsqlQuery(params: URLSearchParams): QueryOptions {
+  const filter = params.get("filter");
+  if (!filter) {
+    return {};
+  }
+  const clause = parseExpression(filter);
+  return {
+    where:
+      "conditions" in clause && clause.operator === "AND"
+        ? clause.conditions
+        : [clause],
+  };
+}
@@ -3,25 +3,116 @@ export * from "./parser";
 export * from "./sqlBuilder";
 export * from "./adapters";
 export * from "./validation";
+export * from "./errors";
+export * from "./schema";
+export * from "./permissions";
+export * from "./policies";
+export * from "./masking";
+export * from "./cost";
+export * from "./fieldMapping";
+export * from "./cursor";
+export * from "./executor";
+export * from "./drivers";
+export * from "./formats";
 
-import { RestQLConfig, RestQLRequest, RestQLResponse } from "./types";
-import { parseRequest } from "./parser";
+import {
+  Driver,
+  QueryResult,
+  RestQLConfig,
+  RestQLRequest,
+  RestQLResponse,
+} from "./types";
+import { isItemPath, parseRequest } from "./parser";
 import { SQLBuilder } from "./sqlBuilder";
+import { SchemaRegistry } from "./schema";
+import { PermissionRegistry } from "./permissions";
+import { PolicyRegistry } from "./policies";
+import { CostModel } from "./cost";
+import { FieldMapper } from "./fieldMapping";
+import { executeStatement } from "./executor";
 import {
   SAFE_FIELD_PATTERN,
   ValidationOptions,
   validateAndSanitizeQuery,
 } from "./validation";
-import { QueryValidationError } from "./queryValidator";
 import { Operator, LogicalOperator } from "./types";
 
 export interface RestQLOptions extends RestQLConfig {
   validation?: ValidationOptions;
+  /** Driver used to run the generated statements with `execute` */
+  driver?: Driver;
 }
 
 export function createRestQL(options: RestQLOptions) {
-  const { validation, ...config } = options;
+  const { validation, driver, ...config } = options;
+  if (driver && driver.dialect !== config.dialect) {
+    throw new Error(
+      `Driver dialect "${driver.dialect}" does not match "${config.dialect}"`
+    );
+  }
   const sqlBuilder = new SQLBuilder(config);
+  const schema =
+    typeof config.schema === "object"
+      ? new SchemaRegistry(config.schema)
+      : undefined;
+  const permissions = config.permissions
+    ? new PermissionRegistry(config.permissions)
+    : undefined;
+  const policies = config.policies
+    ? new PolicyRegistry(config.policies)
+    : undefined;
+  const cost = config.cost ? new CostModel(config.cost, schema) : undefined;
+  const fieldMapper = config.fieldMapping
+    ? new FieldMapper(config.fieldMapping)
+    : undefined;
+
+  function toSQL(request: RestQLRequest): RestQLResponse {
+    const parsedRequest = parseRequest(
+      request,
+      validation,
+      schema,
+      config.pagination,
+      config.mutations
+    );
+    const validatedRequest = schema
+      ? schema.validateRequest(parsedRequest, request.query)
+      : parsedRequest;
+    const authorizedRequest = permissions
+      ? permissions.authorize(
+          validatedRequest,
+          request.principal,
+          request.query
+        )
+      : validatedRequest;
+    // Policies are trusted, so they don't count towards the budget
+    const budgetedRequest = cost
+      ? cost.enforce(authorizedRequest)
+      : authorizedRequest;
+    const securedRequest = policies
+      ? policies.apply(budgetedRequest, request.principal)
+      : budgetedRequest;
+    const statement = sqlBuilder.build(
+      fieldMapper ? fieldMapper.apply(securedRequest) : securedRequest
+    );
+    const { masks } = authorizedRequest;
+    // Tell clients the page size when the server chose it
+    const { operation, limit } = budgetedRequest;
+    const reportLimit =
+      operation === "READ" &&
+      limit !== undefined &&
+      !isItemPath(request.path) &&
+      (config.pagination !== undefined || limit !== parsedRequest.limit);
+    return masks || reportLimit
+      ? {
+          ...statement,
+          meta: {
+            ...statement.meta,
+            ...(masks && { masks }),
+            ...(reportLimit && { limit }),
+          },
+        }
+      : statement;
+  }
 
   return {
     /**
@@ -29,25 +120,23 @@ export function createRestQL(options: RestQLOptions) {
      * @param request The REST request to convert
      * @returns The SQL query and parameters
      */
-    toSQL(request: RestQLRequest): RestQLResponse {
-      const parsedRequest = parseRequest(request, validation);
-      return sqlBuilder.build(parsedRequest);
+    toSQL,
+
+    /**
+     * Convert a REST request to a SQL query and run it with the configured
+     * driver
+     * @param request The REST request to run
+     * @returns The rows read or affected, and the affected row count
+     */
+    async execute(request: RestQLRequest): Promise<QueryResult> {
+      if (!driver) {
+        throw new Error("No driver configured, pass one to createRestQL");
+      }
+      return executeStatement(driver, sqlBuilder, toSQL(request));
     },
   };
 }
 
-export function encodeQuery(query: any): string {
-  return Buffer.from(JSON.stringify(query)).toString("base64");
-}
-
-export function decodeQuery(queryStr: string): unknown {
-  try {
-    return JSON.parse(Buffer.from(queryStr, "base64").toString());
-  } catch {
-    throw new QueryValidationError("Invalid base64 or JSON format");
-  }
-}
-
 export const defaultValidationOptions: ValidationOptions = {
   maxQueryDepth: 5,
   maxConditionsPerGroup: 5,
@@ -0,0 +1,52 @@
+import { createHash } from "crypto";
+import { MaskStrategy } from "./types";
+
+const EMAIL_PATTERN = /^([^@])[^@]*(@.+)$/;
+
+/**
+ * Redact a single value. null stays null so missing values remain
+ * distinguishable from masked ones
+ */
+export function maskValue(value: any, strategy: MaskStrategy): any {
+  if (value === null || value === undefined || strategy === "null") {
+    return null;
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  switch (strategy) {
+    case "hash":
+      return createHash("sha256").update(text).digest("hex");
+    case "partial": {
+      const email = EMAIL_PATTERN.exec(text);
+      if (email) {
+        return `${email[1]}***${email[2]}`;
+      }
+      return text.length > 4 ? `***${text.slice(-4)}` : "***";
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Apply result column masks to the rows read or returned by a statement
+ */
+export function maskRows(
+  rows: Record<string, any>[],
+  masks: Record<string, MaskStrategy>
+): Record<string, any>[] {
+  const columns = Object.entries(masks);
+  return rows.map((row) => {
+    const masked = { ...row };
+    for (const [column, strategy] of columns) {
+      if (!Object.prototype.hasOwnProperty.call(masked, column)) {
+        continue;
+      }
+      if (strategy === "omit") {
+        delete masked[column];
+      } else {
+        masked[column] = maskValue(masked[column], strategy);
+      }
+    }
+    return masked;
+  });
+}
@@ -1,19 +1,328 @@
-import { RestQLRequest, ParsedRequest, QueryOptions } from "./types";
+import {
+  RestQLRequest,
+  ParsedRequest,
+  QueryOptions,
+  WhereCondition,
+  OnConflictOptions,
+  PaginationConfig,
+  MutationConfig,
+  RouteAncestor,
+  WhereClause,
+  Embed,
+  EmbedSelect,
+  SelectField,
+} from "./types";
 import { parseQuery } from "./queryParser";
-import { validateAndSanitizeQuery, ValidationOptions } from "./validation";
+import {
+  isEmbedSelect,
+  validateAndSanitizeQuery,
+  ValidationOptions,
+} from "./validation";
+import {
+  MethodNotAllowedError,
+  NotFoundError,
+  ValidationError,
+} from "./errors";
+import { SchemaRegistry } from "./schema";
+import { decodeCursor } from "./cursor";
+
+/**
+ * Split the key segment of a path into one value per primary-key column.
+ * Composite keys are comma separated, e.g. `/inventory/acme,SKU-1`
+ */
+function parseKey(segment: string, primaryKey: string[]): any[] {
+  const parts = primaryKey.length > 1 ? segment.split(",") : [segment];
+  if (parts.length !== primaryKey.length) {
+    throw new ValidationError(
+      `Expected ${
+        primaryKey.length
+      } key values for primary key (${primaryKey.join(", ")})`,
+      { code: "INVALID_KEY" }
+    );
+  }
+  return parts.map((part) => {
+    try {
+      return decodeURIComponent(part);
+    } catch {
+      return part;
+    }
+  });
+}
+
+/**
+ * Read the upsert resolution from a `Prefer` header, e.g.
+ * `Prefer: resolution=merge-duplicates` or `resolution=ignore-duplicates`
+ */
+export function parsePreferHeader(
+  prefer?: string | string[]
+): OnConflictOptions | undefined {
+  const preferences = (Array.isArray(prefer) ? prefer.join(",") : prefer || "")
+    .split(",")
+    .map((preference) => preference.trim().toLowerCase());
+
+  if (preferences.includes("resolution=merge-duplicates")) {
+    return { action: "merge" };
+  }
+  if (preferences.includes("resolution=ignore-duplicates")) {
+    return { action: "ignore" };
+  }
+  return undefined;
+}
+
+function keyConditions(
+  primaryKey: string[],
+  keyValues: any[]
+): WhereCondition[] {
+  return primaryKey.map((field, i) => ({
+    field,
+    operator: "=",
+    value: keyValues[i],
+  }));
+}
+
+/**
+ * Key values of each row of a bulk body, which must carry every key column
+ */
+function rowKeys(rows: Record<string, any>[], primaryKey: string[]): any[][] {
+  return rows.map((row, i) =>
+    primaryKey.map((field) => {
+      if (!Object.prototype.hasOwnProperty.call(row, field)) {
+        throw new ValidationError(
+          `Bulk requests must include the key column "${field}" in every row`,
+          { code: "INVALID_KEY", path: `values[${i}].${field}` }
+        );
+      }
+      return row[field];
+    })
+  );
+}
+
+/**
+ * Match the rows of a bulk body on their primary key
+ */
+function rowKeyMatch(
+  rows: Record<string, any>[],
+  primaryKey: string[]
+): WhereClause {
+  const keys = rowKeys(rows, primaryKey);
+  if (primaryKey.length === 1) {
+    return {
+      field: primaryKey[0],
+      operator: "IN",
+      value: keys.map(([value]) => value),
+    };
+  }
+  return {
+    operator: "OR",
+    conditions: keys.map((values) => ({
+      operator: "AND",
+      conditions: keyConditions(primaryKey, values),
+    })),
+  };
+}
+
+/**
+ * Refuse updates and deletes that would affect every row of a table, unless
+ * the table allows it
+ */
+function requireFilter(
+  request: ParsedRequest,
+  mutations?: MutationConfig
+): ParsedRequest {
+  const { operation, table, where = [], values = [] } = request;
+  // Bulk updates of several rows are matched on their keys
+  const filtered = where.length > 0 || values.length > 1;
+  if (!filtered && !mutations?.allowUnfiltered?.includes(table)) {
+    throw new ValidationError(
+      `${
+        operation === "UPDATE" ? "Updating" : "Deleting"
+      } every row of table "${table}" is not allowed, narrow the rows with where`,
+      { code: "MISSING_FILTER" }
+    );
+  }
+  return request;
+}
+
+export interface RoutePath {
+  table: string;
+  /** Key segment of `/table/:id`, undefined for the collection */
+  id?: string;
+  /** Rows the route is nested under, outermost first */
+  parents: { table: string; id: string }[];
+}
+
+/**
+ * Split a path into the table it addresses, its key segment and the parent
+ * rows it is nested under, e.g. `/users/42/orders/7` is order 7 of user 42.
+ * `/table/list` is the collection
+ */
+export function parsePath(path: string): RoutePath {
+  const segments = path.split("/").filter(Boolean);
+  const tableIndex =
+    segments.length % 2 === 0 ? segments.length - 2 : segments.length - 1;
+  const parents = [];
+  for (let i = 0; i < tableIndex; i += 2) {
+    parents.push({ table: segments[i], id: segments[i + 1] });
+  }
+  const id = segments[tableIndex + 1];
+  return {
+    table: segments[tableIndex],
+    id: id === "list" ? undefined : id,
+    parents,
+  };
+}
+
+/**
+ * Whether a path addresses a single row, as `/table/:id`
+ */
+export function isItemPath(path: string): boolean {
+  return parsePath(path).id !== undefined;
+}
+
+/**
+ * Conditions scoping a nested route to its parent row, and the rows above
+ * it that must exist under their own parents. Every level must follow a
+ * foreign key declared in the schema
+ */
+function parentScope(
+  { table, parents }: RoutePath,
+  path: string,
+  schema?: SchemaRegistry
+): { scope: WhereCondition[]; ancestors: RouteAncestor[] } {
+  if (parents.length === 0) {
+    return { scope: [], ancestors: [] };
+  }
+  if (!schema) {
+    throw new NotFoundError(
+      `Nested routes such as "${path}" require a schema with foreign keys`
+    );
+  }
+
+  const links = parents.map((parent, i) => {
+    const child = i + 1 < parents.length ? parents[i + 1].table : table;
+    const columns = schema.getForeignKey(child, parent.table);
+    if (!columns) {
+      throw new NotFoundError(
+        `Table "${child}" has no foreign key to "${parent.table}"`
+      );
+    }
+    return keyConditions(
+      columns,
+      parseKey(parent.id, schema.getPrimaryKey(parent.table))
+    );
+  });
+  // /users/42/orders/7/items needs order 7 to belong to user 42
+  const ancestors = parents.slice(1).map((parent, i) => {
+    const primaryKey = schema.getPrimaryKey(parent.table);
+    return {
+      table: parent.table,
+      where: [
+        ...keyConditions(primaryKey, parseKey(parent.id, primaryKey)),
+        ...links[i],
+      ],
+    };
+  });
+  return { scope: links[links.length - 1], ancestors };
+}
+
+/**
+ * Rows written under a nested route can't be moved to another parent
+ */
+function checkParentValues(
+  rows: Record<string, any>[],
+  scope: WhereCondition[]
+): void {
+  rows.forEach((row) =>
+    scope.forEach(({ field, value }) => {
+      if (
+        Object.prototype.hasOwnProperty.call(row, field) &&
+        String(row[field]) !== String(value)
+      ) {
+        throw new ValidationError(
+          `Column "${field}" must be ${JSON.stringify(
+            value
+          )} under the parent route`,
+          { code: "INVALID_VALUE" }
+        );
+      }
+    })
+  );
+}
+
+/**
+ * Apply the page size limits of the table to a read of many rows
+ */
+function applyPageLimits(
+  parsed: ParsedRequest,
+  pagination: PaginationConfig
+): void {
+  const { tables, ...global } = pagination;
+  const { defaultLimit, maxLimit, maxOffset } = {
+    ...global,
+    ...tables?.[parsed.table],
+  };
+
+  const limit = parsed.limit ?? defaultLimit;
+  if (maxLimit !== undefined && (limit === undefined || limit > maxLimit)) {
+    parsed.limit = maxLimit;
+  } else if (limit !== undefined) {
+    parsed.limit = limit;
+  }
+  if (
+    maxOffset !== undefined &&
+    parsed.offset !== undefined &&
+    parsed.offset > maxOffset
+  ) {
+    throw new ValidationError(`Offset must not exceed ${maxOffset}`, {
+      code: "INVALID_PAGINATION",
+      path: "offset",
+    });
+  }
+}
+
+/**
+ * Separate the related tables of a select from its own columns
+ */
+function splitSelect(select: (SelectField | EmbedSelect)[]): {
+  fields: SelectField[];
+  embeds: Embed[];
+} {
+  const fields: SelectField[] = [];
+  const embeds: Embed[] = [];
+  for (const field of select) {
+    if (!isEmbedSelect(field)) {
+      fields.push(field);
+      continue;
+    }
+    for (const [table, nested] of Object.entries(field)) {
+      const split = splitSelect(nested);
+      embeds.push({
+        table,
+        fields: split.fields,
+        ...(split.embeds.length > 0 && { embeds: split.embeds }),
+      });
+    }
+  }
+  return { fields, embeds };
+}
 
 export function parseRequest(
   request: RestQLRequest,
-  validationOptions?: ValidationOptions
+  validationOptions?: ValidationOptions,
+  schema?: SchemaRegistry,
+  pagination?: PaginationConfig,
+  mutations?: MutationConfig
 ): ParsedRequest {
-  const { method, path, query, body } = request;
-  const pathParts = path.split("/").filter(Boolean);
-  const table = pathParts[0];
-  const id = pathParts[1];
+  const { method, path, query, body, headers = {} } = request;
+  const route = parsePath(path);
+  const { table, id } = route;
+  const primaryKey = schema ? schema.getPrimaryKey(table) : ["id"];
+  const { scope, ancestors } = parentScope(route, path, schema);
+  const nested = ancestors.length > 0 ? { ancestors } : {};
 
   let finalQuery: QueryOptions = {};
   // Use the decoded query directly
-  const queryOptions = query as unknown as QueryOptions;
+  const queryOptions = (query || {}) as unknown as QueryOptions;
 
   if (validationOptions) {
     finalQuery = validateAndSanitizeQuery(queryOptions, validationOptions);
@@ -21,66 +330,171 @@ export function parseRequest(
     finalQuery = queryOptions;
   }
 
+  const { returning } = finalQuery;
+  // Rows an update or delete of the collection is narrowed to
+  const filter: WhereClause[] = [
+    ...scope,
+    ...(finalQuery.where
+      ? Array.isArray(finalQuery.where)
+        ? finalQuery.where
+        : [finalQuery.where]
+      : []),
+  ];
+
   switch (method) {
-    case "POST":
+    case "POST": {
+      // An INSERT has no WHERE to check the rows above the parent with
+      if (ancestors.length > 0) {
+        throw new ValidationError(
+          `Rows can only be inserted one level under their parent, as in "/${
+            route.parents[route.parents.length - 1].table
+          }/:id/${table}"`,
+          { code: "UNSUPPORTED_FEATURE" }
+        );
+      }
+      const rows: Record<string, any>[] = Array.isArray(body) ? body : [body];
+      checkParentValues(rows, scope);
+      const forced = Object.fromEntries(
+        scope.map(({ field, value }) => [field, value])
+      );
       return {
         operation: "CREATE",
         table,
-        values: Array.isArray(body) ? body : [body],
+        primaryKey,
+        values: rows.map((row) => ({ ...row, ...forced })),
+        returning,
+        onConflict: finalQuery.onConflict || parsePreferHeader(headers.prefer),
       };
+    }
 
     case "GET": {
-      const { select, where, ...restOptions } = queryOptions;
+      const { select, where, after, before, ...restOptions } = finalQuery;
+      const { fields, embeds } = splitSelect(select || ["*"]);
       const parsed: ParsedRequest = {
         operation: "READ",
         table,
-        fields: select || ["*"],
+        fields,
+        ...(embeds.length > 0 && { embeds }),
         where: where ? (Array.isArray(where) ? where : [where]) : undefined,
         ...restOptions,
       };
+      if (scope.length > 0) {
+        parsed.where = [...scope, ...(parsed.where ?? [])];
+        Object.assign(parsed, nested);
+      }
 
-      if (id && id !== "list") {
-        parsed.where = [{ field: "id", operator: "=", value: id }];
+      const cursor = after ?? before;
+      if (cursor !== undefined) {
+        parsed.cursor = {
+          direction: after !== undefined ? "after" : "before",
+          values: decodeCursor(cursor),
+        };
+      }
+
+      if (id !== undefined) {
+        parsed.where = [
+          ...scope,
+          ...keyConditions(primaryKey, parseKey(id, primaryKey)),
+        ];
         parsed.limit = 1;
+      } else if (pagination) {
+        applyPageLimits(parsed, pagination);
       }
 
       return parsed;
     }
 
     case "PUT":
+    case "PATCH": {
+      const rows: Record<string, any>[] =
+        body === undefined ? [] : Array.isArray(body) ? body : [body];
+      checkParentValues(rows, scope);
+      // PUT replaces rows, PATCH only sets the columns it carries
+      const reset =
+        method === "PUT" && schema
+          ? schema.getResetValues(
+              table,
+              rows,
+              scope.map(({ field }) => field)
+            )
+          : undefined;
+      const update: ParsedRequest = {
+        operation: "UPDATE",
+        table,
+        primaryKey,
+        ...nested,
+        returning,
+        ...(reset && { reset }),
+      };
       if (id) {
+        const keyValues = parseKey(id, primaryKey);
+        const key = Object.fromEntries(
+          primaryKey.map((field, i) => [field, keyValues[i]])
+        );
         return {
-          operation: "UPDATE",
-          table,
-          values: [{ ...body, id }],
-          where: [{ field: "id", operator: "=", value: id }],
+          ...update,
+          values: [{ ...body, ...key }],
+          where: [...scope, ...keyConditions(primaryKey, keyValues)],
         };
       }
-      return {
-        operation: "UPDATE",
-        table,
-        values: body,
-      };
+      // An array body updates each row matched on its primary key, an
+      // object body every row matching the filter
+      const keys = Array.isArray(body) ? rowKeys(rows, primaryKey) : [];
+      const where =
+        keys.length === 1
+          ? [...filter, ...keyConditions(primaryKey, keys[0])]
+          : filter;
+      return requireFilter(
+        {
+          ...update,
+          values: rows,
+          ...(where.length > 0 && { where }),
+        },
+        mutations
+      );
+    }
 
     case "DELETE":
       if (id) {
         return {
           operation: "DELETE",
           table,
-          where: [{ field: "id", operator: "=", value: id }],
+          primaryKey,
+          ...nested,
+          where: [
+            ...scope,
+            ...keyConditions(primaryKey, parseKey(id, primaryKey)),
+          ],
+          returning,
         };
       }
-      return {
-        operation: "DELETE",
-        table,
-        where: body.map((item: any) => ({
-          field: "id",
-          operator: "=",
-          value: item.id,
-        })),
-      };
+      // A body deletes the rows it lists, otherwise the filter decides.
+      // Body parsers such as express.json() turn a missing body into {},
+      // and a JSON body may be null
+      if (Array.isArray(body)) {
+        filter.push(rowKeyMatch(body, primaryKey));
+      } else if (
+        body !== undefined &&
+        !(
+          body === null ||
+          (typeof body === "object" && Object.keys(body).length === 0)
+        )
+      ) {
+        filter.push(rowKeyMatch([body], primaryKey));
+      }
+      return requireFilter(
+        {
+          operation: "DELETE",
+          table,
+          primaryKey,
+          ...nested,
+          returning,
+          ...(filter.length > 0 && { where: filter }),
+        },
+        mutations
+      );
 
     default:
-      throw new Error(`Unsupported HTTP method: ${method}`);
+      throw new MethodNotAllowedError(method);
   }
 }
@@ -0,0 +1,402 @@
+import {
+  Embed,
+  MaskStrategy,
+  ParsedRequest,
+  PermissionsConfig,
+  Principal,
+  QueryOptions,
+  SelectField,
+  TablePermissions,
+  WhereClause,
+} from "./types";
+import { ForbiddenError, joinPath } from "./errors";
+
+type ColumnAccess = "readable" | "filterable" | "sortable" | "writable";
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Role-based access to tables and columns. Every table a request touches
+ * must grant the principal's role the operation, or READ for joined and
+ * embedded tables, and every column must be allowed for the way it is used.
+ * Primary key columns can always be used to address rows. Masked columns
+ * can only be read as they are, and the masks to apply are returned as
+ * `masks`
+ */
+export class PermissionRegistry {
+  constructor(private config: PermissionsConfig) {}
+
+  /**
+   * Check a parsed request against the role of `principal`, narrowing a
+   * `*` select to the readable columns. `query` is the decoded query the
+   * request was parsed from, used to report error paths
+   */
+  authorize(
+    request: ParsedRequest,
+    principal?: Principal,
+    query: QueryOptions = {}
+  ): ParsedRequest {
+    const role = principal?.role ?? this.config.anonymousRole;
+    if (role === undefined) {
+      throw new ForbiddenError("The request has no role to authorize");
+    }
+
+    const permissions = this.getPermissions(role, request.table);
+    if (!permissions.operations.includes(request.operation)) {
+      throw new ForbiddenError(
+        `Role "${role}" may not ${request.operation} table "${request.table}"`
+      );
+    }
+    // An upsert that merges overwrites existing rows, which takes UPDATE too
+    const { onConflict } = request;
+    if (
+      onConflict?.action === "merge" &&
+      !permissions.operations.includes("UPDATE")
+    ) {
+      const target =
+        onConflict.target && onConflict.target.length > 0
+          ? onConflict.target
+          : request.primaryKey ?? ["id"];
+      const merged =
+        onConflict.update ??
+        (request.values ?? [])
+          .flatMap((row) => Object.keys(row))
+          .filter((column) => !target.includes(column));
+      if (merged.length > 0) {
+        throw new ForbiddenError(
+          `Role "${role}" may not UPDATE table "${request.table}"`,
+          { path: "onConflict" }
+        );
+      }
+    }
+
+    const sources = new Map([[request.table, permissions]]);
+    request.joins?.forEach((join, i) => {
+      const joined = this.getPermissions(role, join.table, `joins[${i}].table`);
+      if (!joined.operations.includes("READ")) {
+        throw new ForbiddenError(
+          `Role "${role}" may not READ table "${join.table}"`,
+          { path: `joins[${i}].table` }
+        );
+      }
+      sources.set(join.alias || join.table, joined);
+    });
+
+    const check = (
+      access: ColumnAccess,
+      field: string,
+      path?: string,
+      allowMasked = access === "readable" || access === "writable"
+    ) =>
+      this.checkColumn(
+        request,
+        sources,
+        role,
+        access,
+        field,
+        path,
+        allowMasked
+      );
+
+    request.joins?.forEach((join, i) =>
+      join.on.forEach((clause, j) =>
+        this.checkWhere(clause, `joins[${i}].on[${j}]`, (field, path) =>
+          check("filterable", field, path)
+        )
+      )
+    );
+    // A single where clause may be sent without the surrounding array
+    const wherePath = (i: number) =>
+      Array.isArray(query.where) ? `where[${i}]` : "where";
+    request.where?.forEach((clause, i) =>
+      this.checkWhere(clause, wherePath(i), (field, path) =>
+        check("filterable", field, path)
+      )
+    );
+
+    // Only aggregate aliases are exempt, the database may resolve a plain
+    // alias in having or orderBy to a column of the same name
+    const aliases = new Set(
+      (request.fields || []).flatMap((field) =>
+        typeof field === "object" && field.fn && field.as ? [field.as] : []
+      )
+    );
+    request.having?.forEach((clause, i) =>
+      this.checkWhere(clause, `having[${i}]`, (field, path) => {
+        if (!aliases.has(field)) check("filterable", field, path);
+      })
+    );
+    request.groupBy?.forEach((field, i) =>
+      check("readable", field, `groupBy[${i}]`, false)
+    );
+    request.orderBy?.forEach((order, i) => {
+      if (!aliases.has(order.field)) {
+        check("sortable", order.field, `orderBy[${i}].field`);
+      }
+    });
+
+    request.values?.forEach((row, i) =>
+      Object.keys(row).forEach((column) => {
+        // Key columns of an UPDATE only match rows, they are never set
+        const isKey =
+          request.operation === "UPDATE" &&
+          (request.primaryKey ?? ["id"]).includes(column);
+        if (!isKey) {
+          check("writable", column, joinPath(`values[${i}]`, column));
+        }
+      })
+    );
+    request.onConflict?.update?.forEach((column, i) =>
+      check("writable", column, `onConflict.update[${i}]`)
+    );
+    // A PUT only resets the columns the role may write
+    const { writable } = permissions;
+    const reset =
+      request.reset && writable
+        ? Object.fromEntries(
+            Object.entries(request.reset).filter(([column]) =>
+              writable.includes(column)
+            )
+          )
+        : undefined;
+
+    // Aggregates and aliases could be filtered or sorted on through having
+    // and orderBy, so masked columns must be selected as they are
+    const readable = (field: string, path: string, plain: boolean) =>
+      check("readable", field, path, plain);
+    const fields = this.narrowFields(
+      sources,
+      "select",
+      readable,
+      request.fields
+    );
+    const returning = this.narrowFields(
+      sources,
+      "returning",
+      readable,
+      request.returning
+    ) as string[] | undefined;
+
+    request.embeds?.forEach((embed) =>
+      this.authorizeEmbed(role, embed, "select")
+    );
+
+    const masks = this.collectMasks(request, sources, [
+      ...(fields ?? []),
+      ...(returning ?? []),
+    ]);
+    return {
+      ...request,
+      ...(fields && { fields }),
+      ...(returning && { returning }),
+      ...(masks && { masks }),
+      ...(reset && { reset }),
+    };
+  }
+
+  /**
+   * Embedded tables need READ and their columns must be readable. Masks
+   * don't reach into the nested JSON, so masked columns can't be embedded
+   */
+  private authorizeEmbed(role: string, embed: Embed, path: string): void {
+    const embedPath = joinPath(path, embed.table);
+    const {
+      operations,
+      readable,
+      masked = {},
+    } = this.getPermissions(role, embed.table, embedPath);
+    if (!operations.includes("READ")) {
+      throw new ForbiddenError(
+        `Role "${role}" may not READ table "${embed.table}"`,
+        { path: embedPath }
+      );
+    }
+    for (const field of embed.fields) {
+      const column = typeof field === "object" ? field.field : field;
+      if (hasOwn(masked, column)) {
+        throw new ForbiddenError(
+          `Column "${embed.table}.${column}" is masked for role "${role}"`,
+          { path: embedPath }
+        );
+      }
+      if (readable && !readable.includes(column)) {
+        throw new ForbiddenError(
+          `Column "${embed.table}.${column}" is not readable for role "${role}"`,
+          { path: embedPath }
+        );
+      }
+    }
+    embed.embeds?.forEach((nested) =>
+      this.authorizeEmbed(role, nested, embedPath)
+    );
+  }
+
+  private getPermissions(
+    role: string,
+    table: string,
+    path?: string
+  ): TablePermissions {
+    const roles = hasOwn(this.config.tables, table)
+      ? this.config.tables[table]
+      : {};
+    if (!hasOwn(roles, role)) {
+      throw new ForbiddenError(
+        `Role "${role}" has no access to table "${table}"`,
+        { path }
+      );
+    }
+    return roles[role];
+  }
+
+  private checkColumn(
+    request: ParsedRequest,
+    sources: Map<string, TablePermissions>,
+    role: string,
+    access: ColumnAccess,
+    field: string,
+    path?: string,
+    allowMasked = false
+  ): void {
+    const { qualifier, column, permissions } = this.resolve(
+      request,
+      sources,
+      field
+    );
+    // Qualifiers such as schema.table.column would escape the checks
+    if (!permissions) {
+      throw new ForbiddenError(
+        `Column "${field}" is not on a table of the request`,
+        { path }
+      );
+    }
+    if (permissions.masked && hasOwn(permissions.masked, column)) {
+      if (!allowMasked) {
+        throw new ForbiddenError(
+          `Column "${field}" is masked for role "${role}"`,
+          { path }
+        );
+      }
+      // Masked columns are readable without being listed as such
+      if (access === "readable") {
+        return;
+      }
+    }
+    const allowed = permissions[access];
+    if (!allowed || allowed.includes(column)) {
+      return;
+    }
+    const isKey =
+      access === "filterable" &&
+      qualifier === request.table &&
+      (request.primaryKey ?? ["id"]).includes(column);
+    if (!isKey) {
+      throw new ForbiddenError(
+        `Column "${field}" is not ${access} for role "${role}"`,
+        { path }
+      );
+    }
+  }
+
+  private resolve(
+    request: ParsedRequest,
+    sources: Map<string, TablePermissions>,
+    field: string
+  ) {
+    const separator = field.lastIndexOf(".");
+    const qualifier =
+      separator === -1 ? request.table : field.slice(0, separator);
+    const column = field.slice(separator + 1);
+    return { qualifier, column, permissions: sources.get(qualifier) };
+  }
+
+  /**
+   * Masks of the result columns, keyed by column name as drivers return
+   * them. `*` picks up the masked columns of every table read
+   */
+  private collectMasks(
+    request: ParsedRequest,
+    sources: Map<string, TablePermissions>,
+    fields: SelectField[]
+  ): Record<string, MaskStrategy> | undefined {
+    const masks: Record<string, MaskStrategy> = {};
+    for (const field of fields) {
+      if (field === "*") {
+        for (const { masked } of sources.values()) {
+          Object.assign(masks, masked);
+        }
+      } else if (typeof field === "string") {
+        const { column, permissions } = this.resolve(request, sources, field);
+        if (permissions?.masked && hasOwn(permissions.masked, column)) {
+          masks[column] = permissions.masked[column];
+        }
+      }
+    }
+    return Object.keys(masks).length > 0 ? masks : undefined;
+  }
+
+  private checkWhere(
+    clause: WhereClause,
+    path: string,
+    check: (field: string, path: string) => void
+  ): void {
+    if ("conditions" in clause) {
+      clause.conditions.forEach((condition, i) =>
+        this.checkWhere(
+          condition,
+          joinPath(joinPath(path, "conditions"), i),
+          check
+        )
+      );
+      return;
+    }
+    check(clause.field, joinPath(path, "field"));
+  }
+
+  /**
+   * Check selected or returned columns, replacing `*` with the readable
+   * columns when they are restricted
+   */
+  private narrowFields(
+    sources: Map<string, TablePermissions>,
+    path: string,
+    check: (field: string, path: string, plain: boolean) => void,
+    fields?: SelectField[]
+  ): SelectField[] | undefined {
+    return fields?.flatMap((field, i): SelectField[] => {
+      if (typeof field === "object") {
+        if (field.field !== "*") {
+          check(field.field, `${path}[${i}].field`, false);
+        }
+        return [field];
+      }
+      if (field !== "*") {
+        check(field, `${path}[${i}]`, true);
+        return [field];
+      }
+
+      const permissions = Array.from(sources.entries());
+      if (permissions.every(([, { readable }]) => !readable)) {
+        return [field];
+      }
+      // Without a schema, unrestricted tables can't be listed column by column
+      if (permissions.some(([, { readable }]) => !readable)) {
+        throw new ForbiddenError(
+          'Select columns explicitly, "*" would include unreadable columns',
+          { path: `${path}[${i}]` }
+        );
+      }
+      const columns = ({ readable = [], masked = {} }: TablePermissions) => [
+        ...readable,
+        ...Object.keys(masked).filter((column) => !readable.includes(column)),
+      ];
+      if (sources.size === 1) {
+        return columns(permissions[0][1]);
+      }
+      return permissions.flatMap(([qualifier, table]) =>
+        columns(table).map((column) => `${qualifier}.${column}`)
+      );
+    });
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  Embed,
+  Operation,
+  ParsedRequest,
+  Principal,
+  RowPolicy,
+  WhereClause,
+} from "./types";
+import { ForbiddenError } from "./errors";
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Prefix unqualified fields so the policy stays unambiguous next to joins
+ */
+function qualify(clause: WhereClause, qualifier: string): WhereClause {
+  if ("conditions" in clause) {
+    return {
+      ...clause,
+      conditions: clause.conditions.map((condition) =>
+        qualify(condition, qualifier)
+      ),
+    };
+  }
+  return clause.field.includes(".")
+    ? clause
+    : { ...clause, field: `${qualifier}.${clause.field}` };
+}
+
+/**
+ * Columns the clauses compare, without their qualifier
+ */
+function columnsOf(clauses: WhereClause[]): string[] {
+  return clauses.flatMap((clause) =>
+    "conditions" in clause
+      ? columnsOf(clause.conditions)
+      : [clause.field.slice(clause.field.lastIndexOf(".") + 1)]
+  );
+}
+
+/**
+ * Columns an INSERT must carry to satisfy the policy, or undefined when it
+ * has anything but `=` conditions joined with AND
+ */
+function forcedValues(clauses: WhereClause[]): Record<string, any> | undefined {
+  const values: Record<string, any> = {};
+  for (const clause of clauses) {
+    if ("conditions" in clause) {
+      if (clause.operator !== "AND" || clause.not) return undefined;
+      const nested = forcedValues(clause.conditions);
+      if (!nested) return undefined;
+      Object.assign(values, nested);
+    } else if (clause.operator === "=" && !clause.field.includes(".")) {
+      values[clause.field] = clause.value;
+    } else {
+      return undefined;
+    }
+  }
+  return values;
+}
+
+/**
+ * Evaluates the row-level security policies of the tables a request
+ * touches. The policy of the target table becomes `request.policy`, which
+ * `SQLBuilder` ANDs into SELECT, UPDATE and DELETE, policies of joined
+ * tables are ANDed into their join conditions, so only INNER and LEFT joins
+ * may reach them, and those of embedded tables into their subqueries. INSERT and UPDATE may not set the policy's `=`
+ * columns to other values, nor UPDATE the columns of other policies
+ */
+export class PolicyRegistry {
+  constructor(private policies: Record<string, RowPolicy>) {}
+
+  private evaluate(
+    table: string,
+    operation: Operation,
+    principal?: Principal
+  ): WhereClause[] {
+    if (!hasOwn(this.policies, table)) {
+      return [];
+    }
+    const clause = this.policies[table]({ principal, operation, table });
+    if (clause === undefined) {
+      return [];
+    }
+    return Array.isArray(clause) ? clause : [clause];
+  }
+
+  /**
+   * Embedded rows are read by subqueries of their own, so the policy of an
+   * embedded table becomes the embed's `policy`
+   */
+  private applyToEmbed(embed: Embed, principal?: Principal): Embed {
+    const policy = this.evaluate(embed.table, "READ", principal);
+    const embeds = embed.embeds?.map((nested) =>
+      this.applyToEmbed(nested, principal)
+    );
+    return {
+      ...embed,
+      ...(embeds && { embeds }),
+      ...(policy.length > 0 && { policy }),
+    };
+  }
+
+  apply(request: ParsedRequest, principal?: Principal): ParsedRequest {
+    const { table, operation, joins, embeds } = request;
+    const policy = this.evaluate(table, operation, principal);
+    const applied: ParsedRequest = { ...request };
+
+    if (embeds) {
+      applied.embeds = embeds.map((embed) =>
+        this.applyToEmbed(embed, principal)
+      );
+    }
+    if (joins && joins.length > 0) {
+      applied.joins = joins.map((join) => {
+        const joined = this.evaluate(join.table, "READ", principal);
+        // ON only filters the side a join may NULL-extend, RIGHT and FULL
+        // joins would keep every row of the joined table
+        if (
+          joined.length > 0 &&
+          (join.type === "RIGHT" || join.type === "FULL")
+        ) {
+          throw new ForbiddenError(
+            `${join.type} joins to table "${join.table}" can't be restricted by its row policy`
+          );
+        }
+        return joined.length > 0
+          ? {
+              ...join,
+              on: [
+                ...join.on,
+                ...joined.map((clause) =>
+                  qualify(clause, join.alias || join.table)
+                ),
+              ],
+            }
+          : join;
+      });
+    }
+    if (policy.length === 0) {
+      return applied;
+    }
+
+    // Upserts see the inserted row as well, as EXCLUDED
+    applied.policy =
+      (joins && joins.length > 0) || operation === "CREATE"
+        ? policy.map((clause) => qualify(clause, table))
+        : policy;
+
+    if (operation === "CREATE" || operation === "UPDATE") {
+      const forced = forcedValues(policy);
+      if (operation === "CREATE" && !forced) {
+        throw new ForbiddenError(
+          `The row policy of table "${table}" can't be enforced on insert`
+        );
+      }
+      // Without plain `=` conditions there is no value the policy allows
+      // for sure, so its columns can't be written at all. Key columns only
+      // match rows
+      const keys = request.primaryKey ?? ["id"];
+      const constrained = forced
+        ? []
+        : columnsOf(policy).filter((column) => !keys.includes(column));
+      applied.values = request.values?.map((row) => {
+        for (const column of constrained) {
+          if (hasOwn(row, column)) {
+            throw new ForbiddenError(
+              `Column "${column}" can't be written under the row policy of table "${table}"`
+            );
+          }
+        }
+        for (const [column, value] of Object.entries(forced ?? {})) {
+          if (hasOwn(row, column) && String(row[column]) !== String(value)) {
+            throw new ForbiddenError(
+              `Column "${column}" must be ${JSON.stringify(
+                value
+              )} under the row policy of table "${table}"`
+            );
+          }
+        }
+        return operation === "CREATE" ? { ...row, ...forced } : row;
+      });
+    }
+    // A PUT must not reset rows out of the policy
+    if (request.reset) {
+      const columns = columnsOf(policy);
+      applied.reset = Object.fromEntries(
+        Object.entries(request.reset).filter(
+          ([column]) => !columns.includes(column)
+        )
+      );
+    }
+    return applied;
+  }
+}
@@ -4,11 +4,16 @@ import {
   OrderByClause,
   JoinCondition,
   Operator,
+  SelectExpression,
 } from "./types";
+import { joinPath, RestQLErrorOptions, ValidationError } from "./errors";
 
-export class QueryValidationError extends Error {
-  constructor(message: string) {
-    super(message);
+/**
+ * The decoded query is malformed
+ */
+export class QueryValidationError extends ValidationError {
+  constructor(message: string, options: RestQLErrorOptions = {}) {
+    super(message, { code: "INVALID_QUERY", ...options });
     this.name = "QueryValidationError";
   }
 }
@@ -17,26 +22,88 @@ function isObject(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
-function validateWhereClause(where: unknown): where is WhereClause {
-  if (!isObject(where)) return false;
+/**
+ * Path of the first malformed node in a where clause, if any
+ */
+function findInvalidWhereClause(
+  where: unknown,
+  path: string
+): string | undefined {
+  if (!isObject(where)) return path;
 
   if ("operator" in where && "conditions" in where) {
     if (
       typeof where.operator !== "string" ||
       !Array.isArray(where.conditions)
     ) {
-      return false;
+      return path;
     }
-    return where.conditions.every(validateWhereClause);
+    return findInvalidItem(
+      where.conditions,
+      joinPath(path, "conditions"),
+      findInvalidWhereClause
+    );
   }
 
-  if ("field" in where && "operator" in where && "value" in where) {
-    return (
-      typeof where.field === "string" && typeof where.operator === "string"
-    );
+  if ("field" in where && "operator" in where) {
+    // Only the null checks may omit a value
+    const isNullCheck =
+      where.operator === "IS NULL" || where.operator === "IS NOT NULL";
+    return typeof where.field === "string" &&
+      typeof where.operator === "string" &&
+      ("value" in where || isNullCheck)
+      ? undefined
+      : path;
+  }
+
+  return path;
+}
+
+/**
+ * Path of the first malformed item of a list, if any
+ */
+function findInvalidItem(
+  items: unknown[],
+  path: string,
+  findInvalid: (item: unknown, path: string) => string | undefined
+): string | undefined {
+  for (let i = 0; i < items.length; i++) {
+    const invalid = findInvalid(items[i], joinPath(path, i));
+    if (invalid !== undefined) {
+      return invalid;
+    }
   }
+  return undefined;
+}
 
-  return false;
+function check(isValid: (item: unknown) => boolean) {
+  return (item: unknown, path: string) => (isValid(item) ? undefined : path);
+}
+
+function validateSelect(select: unknown): select is SelectExpression {
+  if (!isObject(select)) return false;
+  return (
+    typeof select.field === "string" &&
+    (select.fn === undefined || typeof select.fn === "string") &&
+    (select.as === undefined || typeof select.as === "string")
+  );
+}
+
+/**
+ * Path of the first malformed item of a select, where `{ table: [...] }`
+ * embeds the rows of a related table
+ */
+function findInvalidSelect(field: unknown, path: string): string | undefined {
+  if (typeof field === "string" || validateSelect(field)) return undefined;
+  if (!isObject(field)) return path;
+  const entries = Object.entries(field);
+  if (entries.length !== 1 || !Array.isArray(entries[0][1])) return path;
+  const [[table, select]] = entries;
+  return findInvalidItem(
+    select as unknown[],
+    joinPath(path, table),
+    findInvalidSelect
+  );
 }
 
 function validateOrderBy(orderBy: unknown): orderBy is OrderByClause {
@@ -49,18 +116,39 @@ function validateOrderBy(orderBy: unknown): orderBy is OrderByClause {
   );
 }
 
-function validateJoin(join: unknown): join is JoinCondition {
-  if (!isObject(join)) return false;
-  return (
-    "type" in join &&
-    "table" in join &&
-    "on" in join &&
-    typeof join.table === "string" &&
-    Array.isArray(join.on) &&
-    join.on.every(validateWhereClause)
-  );
+function findInvalidJoin(join: unknown, path: string): string | undefined {
+  if (
+    !isObject(join) ||
+    !("type" in join) ||
+    typeof join.table !== "string" ||
+    !Array.isArray(join.on)
+  ) {
+    return path;
+  }
+  return findInvalidItem(join.on, joinPath(path, "on"), findInvalidWhereClause);
 }
 
+/**
+ * Throw when `value` is not a list of valid items, pointing at the first
+ * malformed one
+ */
+function assertList(
+  value: unknown,
+  path: string,
+  message: string,
+  findInvalid: (item: unknown, path: string) => string | undefined
+): void {
+  if (!Array.isArray(value)) {
+    throw new QueryValidationError(message, { path });
+  }
+  const invalid = findInvalidItem(value, path, findInvalid);
+  if (invalid !== undefined) {
+    throw new QueryValidationError(message, { path: invalid });
+  }
+}
+
+const isString = (value: unknown) => typeof value === "string";
+
 export function validateQuery(query: unknown): asserts query is QueryOptions {
   if (!isObject(query)) {
     throw new QueryValidationError("Query must be an object");
@@ -68,72 +156,119 @@ export function validateQuery(query: unknown): asserts query is QueryOptions {
 
   // Validate select
   if ("select" in query && query.select !== undefined) {
+    assertList(
+      query.select,
+      "select",
+      "select must be an array of strings, select expressions or embeds",
+      findInvalidSelect
+    );
+  }
+
+  // Validate returning
+  if ("returning" in query && query.returning !== undefined) {
+    assertList(
+      query.returning,
+      "returning",
+      "returning must be an array of strings",
+      check(isString)
+    );
+  }
+
+  // Validate onConflict
+  if ("onConflict" in query && query.onConflict !== undefined) {
+    const { onConflict } = query;
+    const isColumnList = (columns: unknown) =>
+      columns === undefined ||
+      (Array.isArray(columns) && columns.every((c) => typeof c === "string"));
     if (
-      !Array.isArray(query.select) ||
-      !query.select.every((f) => typeof f === "string")
+      !isObject(onConflict) ||
+      (onConflict.action !== "merge" && onConflict.action !== "ignore") ||
+      !isColumnList(onConflict.target) ||
+      !isColumnList(onConflict.update)
     ) {
-      throw new QueryValidationError("select must be an array of strings");
+      throw new QueryValidationError("Invalid onConflict structure", {
+        path: "onConflict",
+      });
     }
   }
 
   // Validate where
   if ("where" in query && query.where !== undefined) {
-    if (Array.isArray(query.where)) {
-      if (!query.where.every(validateWhereClause)) {
-        throw new QueryValidationError("Invalid where clause structure");
-      }
-    } else if (!validateWhereClause(query.where)) {
-      throw new QueryValidationError("Invalid where clause structure");
+    const invalid = Array.isArray(query.where)
+      ? findInvalidItem(query.where, "where", findInvalidWhereClause)
+      : findInvalidWhereClause(query.where, "where");
+    if (invalid !== undefined) {
+      throw new QueryValidationError("Invalid where clause structure", {
+        path: invalid,
+      });
     }
   }
 
   // Validate joins
   if ("joins" in query && query.joins !== undefined) {
-    if (!Array.isArray(query.joins) || !query.joins.every(validateJoin)) {
-      throw new QueryValidationError("Invalid joins structure");
-    }
+    assertList(
+      query.joins,
+      "joins",
+      "Invalid joins structure",
+      findInvalidJoin
+    );
   }
 
   // Validate orderBy
   if ("orderBy" in query && query.orderBy !== undefined) {
-    if (
-      !Array.isArray(query.orderBy) ||
-      !query.orderBy.every(validateOrderBy)
-    ) {
-      throw new QueryValidationError("Invalid orderBy structure");
-    }
+    assertList(
+      query.orderBy,
+      "orderBy",
+      "Invalid orderBy structure",
+      check(validateOrderBy)
+    );
   }
 
   // Validate groupBy
   if ("groupBy" in query && query.groupBy !== undefined) {
-    if (
-      !Array.isArray(query.groupBy) ||
-      !query.groupBy.every((f) => typeof f === "string")
-    ) {
-      throw new QueryValidationError("groupBy must be an array of strings");
-    }
+    assertList(
+      query.groupBy,
+      "groupBy",
+      "groupBy must be an array of strings",
+      check(isString)
+    );
   }
 
   // Validate having
   if ("having" in query && query.having !== undefined) {
-    if (
-      !Array.isArray(query.having) ||
-      !query.having.every(validateWhereClause)
-    ) {
-      throw new QueryValidationError("Invalid having clause structure");
-    }
+    assertList(
+      query.having,
+      "having",
+      "Invalid having clause structure",
+      findInvalidWhereClause
+    );
   }
 
   // Validate limit and offset
   if ("limit" in query && query.limit !== undefined) {
     if (typeof query.limit !== "number" || query.limit < 0) {
-      throw new QueryValidationError("limit must be a non-negative number");
+      throw new QueryValidationError("limit must be a non-negative number", {
+        path: "limit",
+      });
     }
   }
 
   if ("offset" in query && query.offset !== undefined) {
     if (typeof query.offset !== "number" || query.offset < 0) {
-      throw new QueryValidationError("offset must be a non-negative number");
+      throw new QueryValidationError("offset must be a non-negative number", {
+        path: "offset",
+      });
+    }
+  }
+
+  // Validate cursors
+  for (const key of ["after", "before"]) {
+    if (key in query && query[key] !== undefined) {
+      if (typeof query[key] !== "string") {
+        throw new QueryValidationError(`${key} must be a cursor string`, {
+          path: key,
+        });
+      }
     }
   }
 
@@ -143,21 +278,26 @@ export function validateQuery(query: unknown): asserts query is QueryOptions {
   }
 
   // if the query is not empty, but contains non-query options, throw an error
-  if (
-    Object.keys(query).some(
-      (key) =>
-        ![
-          "select",
-          "where",
-          "joins",
-          "orderBy",
-          "groupBy",
-          "having",
-          "limit",
-          "offset",
-        ].includes(key)
-    )
-  ) {
-    throw new QueryValidationError("Invalid query options");
+  const unknownKey = Object.keys(query).find(
+    (key) =>
+      ![
+        "select",
+        "where",
+        "joins",
+        "orderBy",
+        "groupBy",
+        "having",
+        "limit",
+        "offset",
+        "after",
+        "before",
+        "returning",
+        "onConflict",
+      ].includes(key)
+  );
+  if (unknownKey !== undefined) {
+    throw new QueryValidationError("Invalid query options", {
+      path: unknownKey,
+    });
   }
 }
@@ -0,0 +1,554 @@
+import {
+  ColumnSchema,
+  Embed,
+  JoinCondition,
+  Operator,
+  ParsedRequest,
+  QueryOptions,
+  SchemaConfig,
+  SelectExpression,
+  SelectField,
+  TableSchema,
+  WhereClause,
+} from "./types";
+import { joinPath, RestQLErrorOptions, ValidationError } from "./errors";
+import { SAFE_ALIAS_PATTERN } from "./validation";
+
+/**
+ * The request references a table or column outside the schema
+ */
+export class SchemaError extends ValidationError {
+  constructor(message: string, options: RestQLErrorOptions = {}) {
+    super(message, { code: "UNKNOWN_COLUMN", ...options });
+    this.name = "SchemaError";
+  }
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+const INT_PATTERN = /^-?\d+$/;
+const FLOAT_PATTERN = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Whether a non-null value can be bound to a column of the given type.
+ * Query strings carry every value as a string, so numbers and booleans may
+ * also be sent as their string form
+ */
+function isValidValue(column: ColumnSchema, value: unknown): boolean {
+  const isDate = (pattern: RegExp) =>
+    value instanceof Date
+      ? !isNaN(value.getTime())
+      : typeof value === "string" &&
+        pattern.test(value) &&
+        !isNaN(Date.parse(value.replace(" ", "T")));
+
+  switch (column.type) {
+    case "int":
+      return typeof value === "number"
+        ? Number.isSafeInteger(value)
+        : typeof value === "string" && INT_PATTERN.test(value);
+    case "float":
+      return typeof value === "number"
+        ? Number.isFinite(value)
+        : typeof value === "string" && FLOAT_PATTERN.test(value);
+    case "boolean":
+      return [true, false, 0, 1, "true", "false"].includes(value as any);
+    case "uuid":
+      return typeof value === "string" && UUID_PATTERN.test(value);
+    case "date":
+      return isDate(DATE_PATTERN);
+    case "datetime":
+      return isDate(DATETIME_PATTERN);
+    case "enum":
+      return (column.values ?? []).some(
+        (allowed) => String(allowed) === String(value)
+      );
+    case "string":
+      return typeof value === "string" || typeof value === "number";
+    case "json":
+      return true;
+  }
+}
+
+/**
+ * Registry of the tables and columns exposed through the API.
+ * Requests referencing anything that is not declared are rejected before
+ * any SQL is built.
+ */
+export class SchemaRegistry {
+  constructor(private config: SchemaConfig) {}
+
+  get name(): string | undefined {
+    return this.config.name;
+  }
+
+  hasTable(table: string): boolean {
+    return hasOwn(this.config.tables, table);
+  }
+
+  getTable(table: string): TableSchema {
+    if (!this.hasTable(table)) {
+      throw new SchemaError(`Unknown table "${table}"`, {
+        code: "UNKNOWN_TABLE",
+        status: 404,
+      });
+    }
+    return this.config.tables[table];
+  }
+
+  getColumns(table: string): string[] {
+    return Object.keys(this.getTable(table).columns);
+  }
+
+  getColumn(table: string, column: string): ColumnSchema | undefined {
+    const { columns } = this.getTable(table);
+    if (!hasOwn(columns, column)) {
+      return undefined;
+    }
+    const definition = columns[column];
+    return typeof definition === "string" ? { type: definition } : definition;
+  }
+
+  getPrimaryKey(table: string): string[] {
+    const { primaryKey = "id" } = this.getTable(table);
+    return Array.isArray(primaryKey) ? primaryKey : [primaryKey];
+  }
+
+  /**
+   * Columns of `table` referencing the primary key of `parent`, from the
+   * first foreign key between them
+   */
+  getForeignKey(table: string, parent: string): string[] | undefined {
+    const foreignKey = this.getTable(table).foreignKeys?.find(
+      ({ references }) => references === parent
+    );
+    if (!foreignKey) {
+      return undefined;
+    }
+    const { columns } = foreignKey;
+    return Array.isArray(columns) ? columns : [columns];
+  }
+
+  /**
+   * Values a PUT gives the columns its rows leave out: the declared
+   * `default`, or null. Key, read-only and `keep` columns are never reset,
+   * and rows must carry the non-nullable columns that have no default
+   */
+  getResetValues(
+    table: string,
+    rows: Record<string, any>[],
+    keep: string[] = []
+  ): Record<string, any> {
+    const kept = new Set([...this.getPrimaryKey(table), ...keep]);
+    const reset: Record<string, any> = {};
+    for (const name of this.getColumns(table)) {
+      const column = this.getColumn(table, name);
+      if (!column || kept.has(name) || column.readOnly) {
+        continue;
+      }
+      if (column.default !== undefined) {
+        reset[name] = column.default;
+      } else if (column.nullable !== false) {
+        reset[name] = null;
+      } else {
+        const missing = rows.findIndex((row) => !hasOwn(row, name));
+        if (missing !== -1) {
+          throw new SchemaError(
+            `Column "${name}" is required to replace a row`,
+            {
+              code: "INVALID_VALUE",
+              path: joinPath(`values[${missing}]`, name),
+            }
+          );
+        }
+      }
+    }
+    return reset;
+  }
+
+  /**
+   * Whether a column is the leading column of the primary key or of one of
+   * the declared indexes
+   */
+  isIndexed(table: string, column: string): boolean {
+    const { indexes = [] } = this.getTable(table);
+    return [this.getPrimaryKey(table), ...indexes].some((index) =>
+      Array.isArray(index) ? index[0] === column : index === column
+    );
+  }
+
+  /**
+   * Check every table and column referenced by a parsed request against the
+   * schema and expand `*` to the exposed columns. `query` is the decoded
+   * query the request was parsed from, used to report error paths
+   */
+  validateRequest(
+    request: ParsedRequest,
+    query: QueryOptions = {}
+  ): ParsedRequest {
+    const sources = this.resolveSources(request.table, request.joins);
+
+    request.joins?.forEach((join, i) =>
+      join.on.forEach((clause, j) =>
+        this.validateWhere(sources, clause, `joins[${i}].on[${j}]`, true)
+      )
+    );
+    // A single where clause may be sent without the surrounding array
+    const wherePath = (i: number) =>
+      Array.isArray(query.where) ? `where[${i}]` : "where";
+    request.where?.forEach((clause, i) =>
+      this.validateWhere(sources, clause, wherePath(i))
+    );
+    // having and orderBy may also reference aggregate aliases. Aliases of
+    // plain columns are left to the column checks, as the database may
+    // resolve them to a column of the same name
+    const aliases = new Set(
+      (request.fields || []).flatMap((field) =>
+        typeof field === "object" && field.fn && field.as ? [field.as] : []
+      )
+    );
+    request.having?.forEach((clause, i) =>
+      this.validateWhere(sources, clause, `having[${i}]`, false, aliases)
+    );
+    request.groupBy?.forEach((field, i) =>
+      this.validateField(sources, field, `groupBy[${i}]`)
+    );
+    request.orderBy?.forEach((order, i) => {
+      if (!aliases.has(order.field)) {
+        this.validateField(sources, order.field, `orderBy[${i}].field`);
+      }
+    });
+    request.onConflict?.target?.forEach((column, i) =>
+      this.validateColumn(request.table, column, `onConflict.target[${i}]`)
+    );
+    request.onConflict?.update?.forEach((column, i) =>
+      this.validateColumn(request.table, column, `onConflict.update[${i}]`)
+    );
+    // Key columns of an UPDATE only match rows, they are never set
+    const keys =
+      request.operation === "UPDATE" ? this.getPrimaryKey(request.table) : [];
+    request.values?.forEach((row, i) =>
+      Object.entries(row).forEach(([column, value]) => {
+        const path = joinPath(`values[${i}]`, column);
+        const definition = this.validateColumn(request.table, column);
+        if (definition.readOnly && !keys.includes(column)) {
+          throw new SchemaError(`Column "${column}" is read-only`, {
+            code: "INVALID_VALUE",
+            path,
+          });
+        }
+        this.validateValue(column, definition, value, path);
+      })
+    );
+
+    const fields = this.expandFields(
+      request,
+      sources,
+      "select",
+      request.fields
+    );
+    const returning = this.expandFields(
+      request,
+      sources,
+      "returning",
+      request.returning
+    ) as string[] | undefined;
+    const embeds = request.embeds?.map((embed) =>
+      this.resolveEmbed(request.table, embed, "select")
+    );
+
+    return {
+      ...request,
+      ...(fields && { fields }),
+      ...(returning && { returning }),
+      ...(embeds && { embeds }),
+    };
+  }
+
+  /**
+   * Find the foreign key between an embedded table and the table embedding
+   * it, in either direction, and expand `*` to the embedded columns
+   */
+  private resolveEmbed(parent: string, embed: Embed, path: string): Embed {
+    const { table } = embed;
+    const embedPath = joinPath(path, table);
+    if (!this.hasTable(table)) {
+      throw new SchemaError(`Unknown table "${table}"`, {
+        code: "UNKNOWN_TABLE",
+        path: embedPath,
+      });
+    }
+
+    let join: [string, string][];
+    const children = this.getForeignKey(table, parent);
+    const references = children ? undefined : this.getForeignKey(parent, table);
+    if (children) {
+      const key = this.getPrimaryKey(parent);
+      join = children.map((column, i) => [column, key[i]]);
+    } else if (references) {
+      join = this.getPrimaryKey(table).map((column, i) => [
+        column,
+        references[i],
+      ]);
+    } else {
+      throw new SchemaError(
+        `No foreign key between "${table}" and "${parent}"`,
+        { code: "UNKNOWN_TABLE", path: embedPath }
+      );
+    }
+
+    const fields = embed.fields.flatMap((field): SelectField[] => {
+      if (typeof field === "object") {
+        this.validateColumn(table, field.field, embedPath);
+        this.validateAlias(field, embedPath);
+        return [field];
+      }
+      if (field === "*") {
+        return this.getColumns(table);
+      }
+      this.validateColumn(table, field, embedPath);
+      return [field];
+    });
+    const embeds = embed.embeds?.map((nested) =>
+      this.resolveEmbed(table, nested, embedPath)
+    );
+    return {
+      ...embed,
+      fields,
+      join,
+      many: children !== undefined,
+      ...(embeds && { embeds }),
+    };
+  }
+
+  private expandFields(
+    request: ParsedRequest,
+    sources: Map<string, string>,
+    path: string,
+    fields?: SelectField[]
+  ): SelectField[] | undefined {
+    return fields?.flatMap((field, i): SelectField[] => {
+      if (typeof field === "object") {
+        if (field.field !== "*") {
+          this.validateField(sources, field.field, `${path}[${i}].field`);
+        }
+        this.validateAlias(field, `${path}[${i}]`);
+        return [field];
+      }
+      if (field !== "*") {
+        this.validateField(sources, field, `${path}[${i}]`);
+        return [field];
+      }
+      if (!request.joins || request.joins.length === 0) {
+        return this.getColumns(request.table);
+      }
+      // Qualify columns when several tables are in play
+      return Array.from(sources.entries()).flatMap(([qualifier, table]) =>
+        this.getColumns(table).map((column) => `${qualifier}.${column}`)
+      );
+    });
+  }
+
+  /**
+   * Map every name a column can be qualified with (table name or join alias)
+   * to the table it refers to
+   */
+  private resolveSources(
+    table: string,
+    joins: JoinCondition[] = []
+  ): Map<string, string> {
+    this.getTable(table);
+    const sources = new Map([[table, table]]);
+    joins.forEach((join, i) => {
+      if (!this.hasTable(join.table)) {
+        throw new SchemaError(`Unknown table "${join.table}"`, {
+          code: "UNKNOWN_TABLE",
+          path: `joins[${i}].table`,
+        });
+      }
+      sources.set(join.alias || join.table, join.table);
+    });
+    return sources;
+  }
+
+  private validateColumn(
+    table: string,
+    column: string,
+    path?: string
+  ): ColumnSchema {
+    const definition = this.getColumn(table, column);
+    if (!definition) {
+      throw new SchemaError(`Unknown column "${column}" on table "${table}"`, {
+        path,
+      });
+    }
+    return definition;
+  }
+
+  private validateField(
+    sources: Map<string, string>,
+    field: string,
+    path?: string
+  ): ColumnSchema {
+    const separator = field.lastIndexOf(".");
+    if (separator === -1) {
+      const tables = Array.from(new Set(sources.values()));
+      for (const table of tables) {
+        const definition = this.getColumn(table, field);
+        if (definition) {
+          return definition;
+        }
+      }
+      throw new SchemaError(
+        `Unknown column "${field}" on table "${tables[0]}"`,
+        { path }
+      );
+    }
+
+    const qualifier = field.slice(0, separator);
+    const table = sources.get(qualifier);
+    if (!table) {
+      throw new SchemaError(
+        `Unknown table or alias "${qualifier}" in field "${field}"`,
+        { code: "UNKNOWN_TABLE", path }
+      );
+    }
+    return this.validateColumn(table, field.slice(separator + 1), path);
+  }
+
+  /**
+   * Aliases name result columns, so they are checked here as well for
+   * requests parsed without validation
+   */
+  private validateAlias(field: SelectExpression, path: string): void {
+    if (field.as !== undefined && !SAFE_ALIAS_PATTERN.test(field.as)) {
+      throw new ValidationError(
+        `Invalid alias "${field.as}". Must start with a letter and contain only alphanumeric characters and underscores`,
+        { code: "INVALID_ALIAS", path: joinPath(path, "as") }
+      );
+    }
+  }
+
+  /**
+   * Check a value against the declared type of its column and the arity of
+   * the operator comparing them. Values written without an operator may
+   * only be null when the column is nullable
+   */
+  private validateValue(
+    name: string,
+    column: ColumnSchema,
+    value: unknown,
+    path: string,
+    operator?: Operator
+  ): void {
+    const invalid = (message: string) =>
+      new SchemaError(message, { code: "INVALID_VALUE", path });
+
+    switch (operator) {
+      case "IS NULL":
+      case "IS NOT NULL":
+        return;
+      case "LIKE":
+      case "NOT LIKE":
+      case "REGEXP":
+      case "NOT REGEXP":
+        if (typeof value !== "string") {
+          throw invalid(`Operator "${operator}" requires a string pattern`);
+        }
+        return;
+      case "IN":
+      case "NOT IN":
+        if (Array.isArray(value)) {
+          value.forEach((item, i) =>
+            this.validateValue(name, column, item, joinPath(path, i))
+          );
+          return;
+        }
+        break;
+      case "BETWEEN":
+        if (!Array.isArray(value) || value.length !== 2) {
+          throw invalid(
+            'Operator "BETWEEN" requires an array of exactly two values'
+          );
+        }
+        value.forEach((item, i) =>
+          this.validateValue(name, column, item, joinPath(path, i))
+        );
+        return;
+    }
+
+    if (value === null || value === undefined) {
+      if (operator === undefined && column.nullable === false) {
+        throw invalid(`Column "${name}" can't be null`);
+      }
+      return;
+    }
+    if (Array.isArray(value) && column.type !== "json") {
+      throw invalid(
+        operator
+          ? `Operator "${operator}" takes a single value`
+          : `Column "${name}" takes a single value`
+      );
+    }
+    if (!isValidValue(column, value)) {
+      throw invalid(
+        `Value ${JSON.stringify(value)} is not a valid ${
+          column.type
+        } for column "${name}"`
+      );
+    }
+  }
+
+  private validateWhere(
+    sources: Map<string, string>,
+    clause: WhereClause,
+    path: string,
+    isJoinCondition = false,
+    aliases: Set<string> = new Set()
+  ): void {
+    if ("conditions" in clause) {
+      clause.conditions.forEach((condition, i) =>
+        this.validateWhere(
+          sources,
+          condition,
+          joinPath(joinPath(path, "conditions"), i),
+          isJoinCondition,
+          aliases
+        )
+      );
+      return;
+    }
+
+    if (aliases.has(clause.field)) {
+      return;
+    }
+    const column = this.validateField(
+      sources,
+      clause.field,
+      joinPath(path, "field")
+    );
+    // Join conditions compare against other columns rather than values
+    if (
+      isJoinCondition &&
+      typeof clause.value === "string" &&
+      clause.value.includes(".")
+    ) {
+      this.validateField(sources, clause.value, joinPath(path, "value"));
+      return;
+    }
+    this.validateValue(
+      clause.field,
+      column,
+      clause.value,
+      joinPath(path, "value"),
+      clause.operator
+    );
+  }
+}
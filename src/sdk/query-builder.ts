@@ -2,14 +2,17 @@ import {
   JoinType,
   Operator,
   OrderByClause,
+  EmbedSelect,
+  SelectField,
   WhereCondition,
   WhereGroup,
   WhereClause,
   JoinCondition,
 } from "../types";
+import { encodeCursor } from "../cursor";
 
 export class QueryBuilder {
-  private select: string[] = ["*"];
+  private select: (SelectField | EmbedSelect)[] = ["*"];
   private whereConditions: WhereClause[] = [];
   private joins: JoinCondition[] = [];
   private groupByFields: string[] = [];
@@ -17,16 +20,20 @@ export class QueryBuilder {
   private orderByClauses: OrderByClause[] = [];
   private limitValue?: number;
   private offsetValue?: number;
+  private afterCursor?: string;
+  private beforeCursor?: string;
   private currentJoinIndex: number = -1;
 
   constructor() {}
 
   /**
-   * Select specific fields
+   * Select specific fields, aggregates, aliased columns or related rows
    * @example
    * query.selectFields(["id", "name", "email"])
+   * query.selectFields(["department", { fn: "count", field: "*", as: "total" }])
+   * query.selectFields(["id", { orders: ["id", "total"] }])
    */
-  selectFields(fields: string[]): this {
+  selectFields(fields: (SelectField | EmbedSelect)[]): this {
     this.select = fields;
     return this;
   }
@@ -225,9 +232,12 @@ export class QueryBuilder {
   }
 
   /**
-   * Add a HAVING condition
+   * Add a HAVING condition, referencing a column or a select alias
    * @example
-   * query.having("COUNT(*)", ">", 5)
+   * query
+   *   .selectFields(["department", { fn: "count", field: "*", as: "total" }])
+   *   .groupBy(["department"])
+   *   .having("total", ">", 5)
    */
   having(field: string, operator: Operator, value: any): this {
     this.havingConditions.push({ field, operator, value });
@@ -264,6 +274,48 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Page forward from a cursor, replacing any previous cursor
+   * @example
+   * query.orderBy("created_at", "DESC").orderBy("id", "DESC").after(cursor)
+   */
+  after(cursor: string): this {
+    this.afterCursor = cursor;
+    this.beforeCursor = undefined;
+    return this;
+  }
+
+  /**
+   * Page backward from a cursor, replacing any previous cursor
+   * @example
+   * query.orderBy("id").before(query.previousCursor(rows))
+   */
+  before(cursor: string): this {
+    this.beforeCursor = cursor;
+    this.afterCursor = undefined;
+    return this;
+  }
+
+  /**
+   * Cursor for the page following the given rows, based on the last row
+   * and the current orderBy
+   */
+  nextCursor(rows: Record<string, any>[]): string | undefined {
+    return rows.length > 0
+      ? encodeCursor(rows[rows.length - 1], this.orderByClauses)
+      : undefined;
+  }
+
+  /**
+   * Cursor for the page preceding the given rows, based on the first row
+   * and the current orderBy
+   */
+  previousCursor(rows: Record<string, any>[]): string | undefined {
+    return rows.length > 0
+      ? encodeCursor(rows[0], this.orderByClauses)
+      : undefined;
+  }
+
   /**
    * Build and encode the query
    * @returns Base64 encoded query string
@@ -310,6 +362,14 @@ export class QueryBuilder {
       query.offset = this.offsetValue;
     }
 
+    if (this.afterCursor !== undefined) {
+      query.after = this.afterCursor;
+    }
+
+    if (this.beforeCursor !== undefined) {
+      query.before = this.beforeCursor;
+    }
+
     return Buffer.from(JSON.stringify(query)).toString("base64");
   }
 }
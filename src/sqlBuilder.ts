@@ -1,15 +1,31 @@
 import {
+  Embed,
+  KeysetCursor,
+  OrderByClause,
   ParsedRequest,
+  QueryMeta,
   RestQLConfig,
+  ReturningFallback,
   RestQLResponse,
+  SelectExpression,
+  SelectField,
   SQLDialect,
   WhereClause,
   WhereCondition,
   WhereGroup,
 } from "./types";
+import { RestQLError, ValidationError } from "./errors";
+import { SAFE_FIELD_PATTERN } from "./validation";
+
+const IDENTIFIER_QUOTES: [string, string][] = [
+  ['"', '"'],
+  ["`", "`"],
+  ["[", "]"],
+];
 
 function isWhereCondition(clause: WhereClause): clause is WhereCondition {
-  return "field" in clause && "operator" in clause && "value" in clause;
+  // IS NULL / IS NOT NULL conditions carry no value
+  return "field" in clause && "operator" in clause;
 }
 
 export class SQLBuilder {
@@ -18,7 +34,8 @@ export class SQLBuilder {
 
   constructor(config: RestQLConfig) {
     this.dialect = config.dialect;
-    this.schema = config.schema;
+    this.schema =
+      typeof config.schema === "string" ? config.schema : config.schema?.name;
   }
 
   private getTableName(table: string): string {
@@ -29,12 +46,21 @@ export class SQLBuilder {
   }
 
   private escapeIdentifier(identifier: string): string {
-    // Skip escaping if the identifier is already escaped
-    if (identifier.startsWith('"') && identifier.endsWith('"')) {
-      return identifier;
-    }
-    if (identifier.startsWith("`") && identifier.endsWith("`")) {
-      return identifier;
+    // Skip escaping if the identifier is already escaped, as long as the
+    // quotes inside it are doubled
+    for (const [open, close] of IDENTIFIER_QUOTES) {
+      if (
+        identifier.length > 1 &&
+        identifier.startsWith(open) &&
+        identifier.endsWith(close) &&
+        !identifier
+          .slice(1, -1)
+          .split(close + close)
+          .join("")
+          .includes(close)
+      ) {
+        return identifier;
+      }
     }
 
     // Handle qualified names (e.g., "table.column")
@@ -45,34 +71,127 @@ export class SQLBuilder {
         .join(".");
     }
 
-    // Handle regular identifiers
+    // Handle regular identifiers, doubling the closing quote inside them
     switch (this.dialect) {
       case "mysql":
-        return `\`${identifier}\``;
+        return `\`${identifier.replace(/`/g, "``")}\``;
       case "postgres":
       case "sqlite":
-        return `"${identifier}"`;
+        return `"${identifier.replace(/"/g, '""')}"`;
+      case "mssql":
+        return `[${identifier.replace(/]/g, "]]")}]`;
+    }
+  }
+
+  /**
+   * Quote a string that has to be inlined as a literal, such as the keys of
+   * embedded JSON
+   */
+  private quoteLiteral(value: string): string {
+    const escaped = value.replace(/'/g, "''");
+    // MySQL also reads backslashes as escapes inside literals
+    return this.dialect === "mysql"
+      ? `'${escaped.replace(/\\/g, "\\\\")}'`
+      : `'${escaped}'`;
+  }
+
+  private placeholder(index: number): string {
+    switch (this.dialect) {
+      case "postgres":
+        return `$${index}`;
+      case "mssql":
+        return `@p${index}`;
+      default:
+        return "?";
+    }
+  }
+
+  private buildCondition(
+    condition: WhereCondition,
+    paramOffset: number,
+    expressions?: Map<string, string>
+  ): { sql: string; values: any[] } {
+    const field =
+      expressions?.get(condition.field) ??
+      this.escapeIdentifier(condition.field);
+    const { operator, value } = condition;
+    let paramIndex = paramOffset;
+    const next = () => this.placeholder(++paramIndex);
+
+    switch (operator) {
+      case "IS NULL":
+      case "IS NOT NULL":
+        return { sql: `${field} ${operator}`, values: [] };
+
+      case "IN":
+      case "NOT IN": {
+        const list = Array.isArray(value) ? value : [value];
+        if (list.length === 0) {
+          throw new ValidationError(`${operator} requires at least one value`, {
+            code: "INVALID_VALUE",
+          });
+        }
+        // PostgreSQL binds the whole list as a single array parameter
+        if (this.dialect === "postgres") {
+          return {
+            sql: `${field} ${
+              operator === "IN" ? "= ANY" : "<> ALL"
+            }(${next()})`,
+            values: [list],
+          };
+        }
+        return {
+          sql: `${field} ${operator} (${list.map(() => next()).join(", ")})`,
+          values: list,
+        };
+      }
+
+      case "BETWEEN": {
+        if (!Array.isArray(value) || value.length !== 2) {
+          throw new ValidationError("BETWEEN requires exactly two values", {
+            code: "INVALID_VALUE",
+          });
+        }
+        return {
+          sql: `${field} BETWEEN ${next()} AND ${next()}`,
+          values: [value[0], value[1]],
+        };
+      }
+
+      case "LIKE":
+      case "NOT LIKE":
+        // PostgreSQL and MySQL escape with a backslash by default, SQLite and
+        // SQL Server only when told
+        return {
+          sql: `${field} ${operator} ${next()} ESCAPE ${this.quoteLiteral(
+            "\\"
+          )}`,
+          values: [value],
+        };
+
+      default:
+        return { sql: `${field} ${operator} ${next()}`, values: [value] };
     }
   }
 
   private buildWhereClause(
     clause: WhereClause,
-    paramOffset: number = 0,
-    parentOperator?: "AND" | "OR"
+    paramOffset = 0,
+    parentOperator?: "AND" | "OR",
+    expressions?: Map<string, string>
   ): { sql: string; values: any[] } {
     if (isWhereCondition(clause)) {
-      const paramIndex = paramOffset + 1;
-      return {
-        sql: `${this.escapeIdentifier(clause.field)} ${clause.operator} ${
-          this.dialect === "postgres" ? `$${paramIndex}` : "?"
-        }`,
-        values: [clause.value],
-      };
+      return this.buildCondition(clause, paramOffset, expressions);
     }
 
     let currentOffset = paramOffset;
     const results = clause.conditions.map((c) => {
-      const result = this.buildWhereClause(c, currentOffset, clause.operator);
+      const result = this.buildWhereClause(
+        c,
+        currentOffset,
+        clause.operator,
+        expressions
+      );
       currentOffset += result.values.length;
       return result;
     });
@@ -101,10 +220,170 @@ export class SQLBuilder {
     };
   }
 
+  /**
+   * Build clauses joined with AND, appending their values to params so
+   * placeholders keep numbering from where the statement left off.
+   * `expressions` substitutes SQL expressions for select aliases
+   */
+  private buildConditions(
+    clauses: WhereClause[],
+    params: any[],
+    expressions?: Map<string, string>
+  ): string {
+    return clauses
+      .map((clause) => {
+        const result = this.buildWhereClause(
+          clause,
+          params.length,
+          undefined,
+          expressions
+        );
+        params.push(...result.values);
+        return result.sql;
+      })
+      .join(" AND ");
+  }
+
+  /**
+   * WHERE conditions of a request: its row policy, the rows a nested route
+   * passes through and its where
+   */
+  private buildFilter(request: ParsedRequest, params: any[]): string {
+    const { policy = [], where = [], ancestors = [] } = request;
+    return [
+      ...(policy.length > 0 ? [this.buildConditions(policy, params)] : []),
+      ...ancestors.map(
+        (ancestor) =>
+          `EXISTS (SELECT 1 FROM ${this.getTableName(
+            ancestor.table
+          )} WHERE ${this.buildConditions(ancestor.where, params)})`
+      ),
+      ...(where.length > 0 ? [this.buildConditions(where, params)] : []),
+    ].join(" AND ");
+  }
+
+  private buildExpression(expression: SelectExpression): string {
+    const field =
+      expression.field === "*" ? "*" : this.escapeIdentifier(expression.field);
+    return expression.fn ? `${expression.fn.toUpperCase()}(${field})` : field;
+  }
+
+  private buildFieldList(fields: SelectField[]): string {
+    return fields
+      .map((f) => {
+        if (typeof f === "object") {
+          const expression = this.buildExpression(f);
+          return f.as
+            ? `${expression} AS ${this.escapeIdentifier(f.as)}`
+            : expression;
+        }
+        return f === "*" ? "*" : this.escapeIdentifier(f);
+      })
+      .join(", ");
+  }
+
+  private buildReturning(returning?: SelectField[]): string {
+    if (
+      !returning ||
+      returning.length === 0 ||
+      this.dialect === "mysql" ||
+      this.dialect === "mssql"
+    ) {
+      return "";
+    }
+    return ` RETURNING ${this.buildFieldList(returning)}`;
+  }
+
+  /**
+   * SQL Server's equivalent of RETURNING, placed before VALUES / WHERE
+   */
+  private buildOutput(
+    returning: SelectField[] | undefined,
+    source: "INSERTED" | "DELETED"
+  ): string {
+    if (!returning || returning.length === 0 || this.dialect !== "mssql") {
+      return "";
+    }
+    return ` OUTPUT ${returning
+      .map((f) => {
+        if (typeof f === "object") {
+          const column = `${source}.${this.escapeIdentifier(f.field)}`;
+          return f.as ? `${column} AS ${this.escapeIdentifier(f.as)}` : column;
+        }
+        return `${source}.${f === "*" ? "*" : this.escapeIdentifier(f)}`;
+      })
+      .join(", ")}`;
+  }
+
+  /**
+   * Describe how to fetch the affected rows on MySQL, which has no RETURNING
+   */
+  private buildReturningFallback(
+    request: ParsedRequest,
+    strategy: ReturningFallback["strategy"],
+    where?: WhereClause[]
+  ): ReturningFallback | undefined {
+    const { table, returning, primaryKey = ["id"] } = request;
+    if (!returning || returning.length === 0 || this.dialect !== "mysql") {
+      return undefined;
+    }
+    return {
+      strategy,
+      fields: returning,
+      table,
+      primaryKey,
+      ...(request.policy && { policy: request.policy }),
+      select: where
+        ? this.buildSelect({
+            operation: "READ",
+            table,
+            fields: returning,
+            where,
+            policy: request.policy,
+            ancestors: request.ancestors,
+          })
+        : undefined,
+    };
+  }
+
+  /**
+   * Build the SELECT for a "select-inserted" fallback once the driver has
+   * reported the first generated id and the number of inserted rows. The
+   * rows of a multi-row INSERT only get consecutive ids with
+   * `innodb_autoinc_lock_mode` 0 or 1, MySQL 8 defaults to 2
+   */
+  public buildInsertedSelect(
+    fallback: ReturningFallback,
+    insertId: number,
+    rowCount: number
+  ): RestQLResponse {
+    if (fallback.primaryKey.length !== 1) {
+      throw new ValidationError(
+        "Returning inserted rows requires a single-column primary key",
+        { code: "UNSUPPORTED_FEATURE", path: "returning" }
+      );
+    }
+    return this.buildSelect({
+      operation: "READ",
+      table: fallback.table,
+      fields: fallback.fields,
+      where: [
+        {
+          field: fallback.primaryKey[0],
+          operator: "BETWEEN",
+          value: [insertId, insertId + rowCount - 1],
+        },
+      ],
+      policy: fallback.policy,
+    });
+  }
+
   private buildInsert(request: ParsedRequest): RestQLResponse {
-    const { table, values = [] } = request;
+    const { table, values = [], primaryKey = ["id"] } = request;
     if (values.length === 0) {
-      throw new Error("No values provided for insert");
+      throw new ValidationError("No values provided for insert", {
+        code: "MISSING_VALUES",
+      });
     }
 
     const fields = Object.keys(values[0]);
@@ -116,41 +395,182 @@ export class SQLBuilder {
     const placeholders = values
       .map(
         () =>
-          `(${fields
-            .map(() =>
-              this.dialect === "postgres" ? `$${paramCounter++}` : "?"
-            )
-            .join(", ")})`
+          `(${fields.map(() => this.placeholder(paramCounter++)).join(", ")})`
       )
       .join(", ");
 
+    const params = values.flatMap((v) => fields.map((f) => v[f]));
     const sql = `INSERT INTO ${tableName} (${escapedFields.join(
       ", "
-    )}) VALUES ${placeholders}`;
-    const params = values.flatMap((v) => fields.map((f) => v[f]));
+    )})${this.buildOutput(
+      request.returning,
+      "INSERTED"
+    )} VALUES ${placeholders}${this.buildOnConflict(
+      request,
+      fields,
+      params
+    )}${this.buildReturning(request.returning)}`;
+
+    // Rows that carry their own key can be selected back directly
+    const hasKeys = values.every((row) =>
+      primaryKey.every((key) => row[key] !== undefined)
+    );
+    // Upserts report updated rows twice in the affected row count and skip
+    // ids, so generated ids can't find their rows
+    if (
+      !hasKeys &&
+      request.onConflict &&
+      this.dialect === "mysql" &&
+      request.returning &&
+      request.returning.length > 0
+    ) {
+      throw new ValidationError(
+        "Returning upserted rows on MySQL requires the primary key in every row",
+        { code: "UNSUPPORTED_FEATURE", path: "returning" }
+      );
+    }
+    const returning = hasKeys
+      ? this.buildReturningFallback(request, "select-after", [
+          this.buildKeyMatch(primaryKey, values),
+        ])
+      : this.buildReturningFallback(request, "select-inserted");
+
+    return returning ? { sql, params, returning } : { sql, params };
+  }
+
+  private buildOnConflict(
+    request: ParsedRequest,
+    fields: string[],
+    params: any[]
+  ): string {
+    const { onConflict, primaryKey = ["id"], policy = [] } = request;
+    if (!onConflict) {
+      return "";
+    }
+
+    const target =
+      onConflict.target && onConflict.target.length > 0
+        ? onConflict.target
+        : primaryKey;
+    const update =
+      onConflict.action === "merge"
+        ? onConflict.update || fields.filter((f) => !target.includes(f))
+        : [];
+    const escape = (column: string) => this.escapeIdentifier(column);
+
+    if (this.dialect === "mssql") {
+      throw new ValidationError("onConflict is not supported on SQL Server", {
+        code: "UNSUPPORTED_FEATURE",
+        path: "onConflict",
+      });
+    }
+    if (this.dialect === "mysql") {
+      if (update.length > 0 && policy.length > 0) {
+        throw new ValidationError(
+          "onConflict merge can't enforce row policies on MySQL",
+          { code: "UNSUPPORTED_FEATURE", path: "onConflict" }
+        );
+      }
+      // MySQL resolves conflicts on any unique key, so there is no target.
+      // Assigning the key to itself keeps the existing row for "ignore"
+      const assignments =
+        update.length > 0
+          ? update.map((c) => `${escape(c)} = VALUES(${escape(c)})`)
+          : target.map((c) => `${escape(c)} = ${escape(c)}`);
+      return ` ON DUPLICATE KEY UPDATE ${assignments.join(", ")}`;
+    }
 
-    return { sql, params };
+    const conflictTarget = `(${target.map(escape).join(", ")})`;
+    if (update.length === 0) {
+      return ` ON CONFLICT ${conflictTarget} DO NOTHING`;
+    }
+    let sql = ` ON CONFLICT ${conflictTarget} DO UPDATE SET ${update
+      .map((c) => `${escape(c)} = EXCLUDED.${escape(c)}`)
+      .join(", ")}`;
+    // Only merge into existing rows the policy lets the request see
+    if (policy.length > 0) {
+      sql += ` WHERE ${this.buildConditions(policy, params)}`;
+    }
+    return sql;
+  }
+
+  /**
+   * A clause matching the given rows on their primary key
+   */
+  private buildKeyMatch(
+    primaryKey: string[],
+    rows: Record<string, any>[]
+  ): WhereClause {
+    if (primaryKey.length === 1) {
+      return {
+        field: primaryKey[0],
+        operator: "IN",
+        value: rows.map((row) => row[primaryKey[0]]),
+      };
+    }
+    return {
+      operator: "OR",
+      conditions: rows.map((row) => ({
+        operator: "AND",
+        conditions: primaryKey.map((key) => ({
+          field: key,
+          operator: "=",
+          value: row[key],
+        })),
+      })),
+    };
   }
 
   private buildSelect(request: ParsedRequest): RestQLResponse {
     const {
       table,
       fields = ["*"],
-      where = [],
+      embeds = [],
       joins = [],
       groupBy = [],
       having = [],
       orderBy = [],
       limit,
       offset,
+      cursor,
     } = request;
     const tableName = this.getTableName(table);
-    const escapedFields = fields.map((f) =>
-      f === "*" ? "*" : this.escapeIdentifier(f)
-    );
 
-    let sql = `SELECT ${escapedFields.join(", ")} FROM ${tableName}`;
+    // SQL Server pages with OFFSET ... FETCH, which needs an ORDER BY.
+    // Without an ordering to page over, a plain limit becomes TOP
+    const useTop =
+      this.dialect === "mssql" &&
+      limit !== undefined &&
+      offset === undefined &&
+      orderBy.length === 0;
+    if (
+      this.dialect === "mssql" &&
+      offset !== undefined &&
+      orderBy.length === 0
+    ) {
+      throw new ValidationError("SQL Server pagination requires orderBy", {
+        code: "INVALID_PAGINATION",
+        path: "offset",
+      });
+    }
+
+    // Embedded rows are selected first, their policies bind the first params
     const params: any[] = [];
+    const columns = [
+      ...(fields.length > 0 ? [this.buildFieldList(fields)] : []),
+      ...embeds.map(
+        (embed) =>
+          `${this.buildEmbed(
+            embed,
+            table,
+            1,
+            params
+          )} AS ${this.escapeIdentifier(embed.table)}`
+      ),
+    ];
+    let sql = `SELECT ${useTop ? `TOP (${limit}) ` : ""}${columns.join(
+      ", "
+    )} FROM ${tableName}`;
 
     // Build JOINs
     if (joins.length > 0) {
@@ -159,9 +579,12 @@ export class SQLBuilder {
         const joinTableRef = join.alias || join.table;
         const joinResults = join.on.map((clause) => {
           if (isWhereCondition(clause)) {
-            // Handle join conditions where the value is a column reference
+            // Handle join conditions where the value is a column reference,
+            // anything else is bound as a value
             const isColumnRef =
-              typeof clause.value === "string" && clause.value.includes(".");
+              typeof clause.value === "string" &&
+              clause.value.includes(".") &&
+              SAFE_FIELD_PATTERN.test(clause.value);
             if (isColumnRef) {
               return {
                 sql: `${this.escapeIdentifier(clause.field)} ${
@@ -171,10 +594,11 @@ export class SQLBuilder {
               };
             }
           }
-          return this.buildWhereClause(clause, params.length);
+          const result = this.buildWhereClause(clause, params.length);
+          params.push(...result.values);
+          return result;
         });
         const onClause = joinResults.map((r) => r.sql).join(" AND ");
-        params.push(...joinResults.flatMap((r) => r.values));
 
         return `${join.type} JOIN ${joinTable}${
           join.alias ? ` AS ${this.escapeIdentifier(join.alias)}` : ""
@@ -184,13 +608,26 @@ export class SQLBuilder {
       sql += ` ${joinClauses.join(" ")}`;
     }
 
-    if (where.length > 0) {
-      const whereResults = where.map((w) =>
-        this.buildWhereClause(w, params.length)
-      );
-      const whereClause = whereResults.map((r) => r.sql).join(" AND ");
-      sql += ` WHERE ${whereClause}`;
-      params.push(...whereResults.flatMap((r) => r.values));
+    const conditions: string[] = [];
+    const filter = this.buildFilter(request, params);
+    if (filter) {
+      conditions.push(filter);
+    }
+    // Paging backwards walks the ordering in reverse
+    const reversed = cursor?.direction === "before";
+    const ordering = reversed
+      ? orderBy.map(
+          (order): OrderByClause => ({
+            ...order,
+            direction: order.direction === "ASC" ? "DESC" : "ASC",
+          })
+        )
+      : orderBy;
+    if (cursor) {
+      conditions.push(this.buildCursorCondition(ordering, cursor, params));
+    }
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(" AND ")}`;
     }
 
     // Add GROUP BY
@@ -199,39 +636,208 @@ export class SQLBuilder {
       sql += ` GROUP BY ${escapedGroups.join(", ")}`;
     }
 
-    // Add HAVING
+    // Add HAVING. PostgreSQL can't reference select aliases here, so
+    // aggregate aliases are replaced with their expressions
     if (having.length > 0) {
-      const havingResults = having.map((h) =>
-        this.buildWhereClause(h, params.length)
+      const aggregates = new Map(
+        fields.flatMap((f) =>
+          typeof f === "object" && f.fn && f.as
+            ? [[f.as, this.buildExpression(f)] as [string, string]]
+            : []
+        )
       );
-      const havingClause = havingResults.map((r) => r.sql).join(" AND ");
-      sql += ` HAVING ${havingClause}`;
-      params.push(...havingResults.flatMap((r) => r.values));
+      sql += ` HAVING ${this.buildConditions(having, params, aggregates)}`;
     }
 
     // Add ORDER BY
-    if (orderBy.length > 0) {
-      const orderClauses = orderBy.map(
+    if (ordering.length > 0) {
+      const orderClauses = ordering.map(
         (order) => `${this.escapeIdentifier(order.field)} ${order.direction}`
       );
       sql += ` ORDER BY ${orderClauses.join(", ")}`;
     }
 
-    if (limit !== undefined) {
-      sql += ` LIMIT ${limit}`;
+    if (this.dialect === "mssql") {
+      if (!useTop && (limit !== undefined || offset !== undefined)) {
+        sql += ` OFFSET ${offset ?? 0} ROWS`;
+        if (limit !== undefined) {
+          sql += ` FETCH NEXT ${limit} ROWS ONLY`;
+        }
+      }
+    } else {
+      if (limit !== undefined) {
+        sql += ` LIMIT ${limit}`;
+      }
+
+      if (offset !== undefined) {
+        sql += ` OFFSET ${offset}`;
+      }
     }
 
-    if (offset !== undefined) {
-      sql += ` OFFSET ${offset}`;
+    const meta: QueryMeta = {
+      ...(reversed && { reversed }),
+      ...(embeds.length > 0 && { embeds: embeds.map((embed) => embed.table) }),
+    };
+    return Object.keys(meta).length > 0
+      ? { sql, params, meta }
+      : { sql, params };
+  }
+
+  /**
+   * Correlated subquery reading an embedded table as JSON: an array of
+   * objects when it references the embedding table, otherwise the one
+   * referenced object or null. Embedded tables are aliased by their depth
+   * so a table can embed rows of itself
+   */
+  private buildEmbed(
+    embed: Embed,
+    parent: string,
+    depth: number,
+    params: any[]
+  ): string {
+    const { table, fields, embeds = [], join, many, policy = [] } = embed;
+    if (!join) {
+      throw new ValidationError(
+        `Embedding "${table}" requires a schema declaring its foreign keys`,
+        { code: "UNSUPPORTED_FEATURE", path: "select" }
+      );
+    }
+    const alias = `${table}_${depth}`;
+    const column = (qualifier: string, name: string) =>
+      `${this.escapeIdentifier(qualifier)}.${this.escapeIdentifier(name)}`;
+    // Nested JSON comes back from a subquery as text on SQLite and SQL Server
+    const nested = (subquery: string) =>
+      this.dialect === "sqlite"
+        ? `json(${subquery})`
+        : this.dialect === "mssql"
+        ? `JSON_QUERY(${subquery})`
+        : subquery;
+    const members: [string, string][] = [
+      ...fields.map((field): [string, string] =>
+        typeof field === "object"
+          ? [field.as ?? field.field, column(alias, field.field)]
+          : [field, column(alias, field)]
+      ),
+      ...embeds.map((child): [string, string] => [
+        child.table,
+        nested(this.buildEmbed(child, alias, depth + 1, params)),
+      ]),
+    ];
+
+    const conditions = join.map(
+      ([own, referenced]) =>
+        `${column(alias, own)} = ${column(parent, referenced)}`
+    );
+    if (policy.length > 0) {
+      conditions.push(this.buildConditions(policy, params));
+    }
+    const from = `FROM ${this.getTableName(table)} AS ${this.escapeIdentifier(
+      alias
+    )} WHERE ${conditions.join(" AND ")}`;
+
+    if (this.dialect === "mssql") {
+      const list = members
+        .map(([key, value]) => `${value} AS ${this.escapeIdentifier(key)}`)
+        .join(", ");
+      return many
+        ? `COALESCE((SELECT ${list} ${from} FOR JSON PATH, INCLUDE_NULL_VALUES), '[]')`
+        : `(SELECT ${list} ${from} FOR JSON PATH, WITHOUT_ARRAY_WRAPPER, INCLUDE_NULL_VALUES)`;
     }
 
-    return { sql, params };
+    const pairs = members
+      .map(([key, value]) => `${this.quoteLiteral(key)}, ${value}`)
+      .join(", ");
+    switch (this.dialect) {
+      case "postgres": {
+        const object = `json_build_object(${pairs})`;
+        return many
+          ? `(SELECT COALESCE(json_agg(${object}), '[]') ${from})`
+          : `(SELECT ${object} ${from})`;
+      }
+      case "mysql": {
+        const object = `JSON_OBJECT(${pairs})`;
+        return many
+          ? `(SELECT COALESCE(JSON_ARRAYAGG(${object}), JSON_ARRAY()) ${from})`
+          : `(SELECT ${object} ${from})`;
+      }
+      default: {
+        const object = `json_object(${pairs})`;
+        return many
+          ? `(SELECT json_group_array(${object}) ${from})`
+          : `(SELECT ${object} ${from})`;
+      }
+    }
+  }
+
+  /**
+   * Keyset predicate selecting the rows that come after the cursor in the
+   * given ordering
+   */
+  private buildCursorCondition(
+    orderBy: OrderByClause[],
+    cursor: KeysetCursor,
+    params: any[]
+  ): string {
+    if (orderBy.length === 0 || cursor.values.length !== orderBy.length) {
+      throw new ValidationError("Cursor values must match the orderBy fields", {
+        code: "INVALID_CURSOR",
+      });
+    }
+    const bind = (value: any) => {
+      params.push(value);
+      return this.placeholder(params.length);
+    };
+    const comparison = (order: OrderByClause) =>
+      order.direction === "ASC" ? ">" : "<";
+    const fields = orderBy.map((order) => this.escapeIdentifier(order.field));
+
+    // A row-value comparison covers a uniform direction, e.g.
+    // ("created_at", "id") > ($1, $2). SQL Server has no row values
+    const uniform = orderBy.every(
+      (order) => order.direction === orderBy[0].direction
+    );
+    if (uniform && (orderBy.length === 1 || this.dialect !== "mssql")) {
+      if (orderBy.length === 1) {
+        return `${fields[0]} ${comparison(orderBy[0])} ${bind(
+          cursor.values[0]
+        )}`;
+      }
+      return `(${fields.join(", ")}) ${comparison(orderBy[0])} (${cursor.values
+        .map((value) => bind(value))
+        .join(", ")})`;
+    }
+
+    // Mixed directions expand to (a > ?) OR (a = ? AND b < ?) ...
+    const branches = orderBy.map((order, i) => {
+      const equalities = orderBy
+        .slice(0, i)
+        .map((_, j) => `${fields[j]} = ${bind(cursor.values[j])}`);
+      const last = `${fields[i]} ${comparison(order)} ${bind(
+        cursor.values[i]
+      )}`;
+      return `(${[...equalities, last].join(" AND ")})`;
+    });
+    return `(${branches.join(" OR ")})`;
   }
 
   private buildUpdate(request: ParsedRequest): RestQLResponse {
-    const { table, values = [], where = [] } = request;
-    if (values.length === 0) {
-      throw new Error("No values provided for update");
+    const { table, where = [], primaryKey = ["id"] } = request;
+    // A PUT replaces rows, resetting the columns they leave out
+    const values = (request.values ?? []).map((row) => {
+      const replaced = { ...row };
+      for (const [column, value] of Object.entries(request.reset ?? {})) {
+        if (!(column in replaced)) {
+          replaced[column] = value;
+        }
+      }
+      return replaced;
+    });
+    const isKey = (key: string) => primaryKey.includes(key);
+    // Key columns only match rows, so they leave nothing to set
+    if (values.every((row) => Object.keys(row).every(isKey))) {
+      throw new ValidationError("No values provided for update", {
+        code: "MISSING_VALUES",
+      });
     }
 
     const tableName = this.getTableName(table);
@@ -240,102 +846,117 @@ export class SQLBuilder {
 
     if (values.length === 1) {
       const updateFields = Object.entries(values[0])
-        .filter(([key]) => key !== "id")
+        .filter(([key]) => !isKey(key))
         .map(
           ([key], i) =>
-            `${this.escapeIdentifier(key)} = ${
-              this.dialect === "postgres" ? `$${i + 1}` : "?"
-            }`
+            `${this.escapeIdentifier(key)} = ${this.placeholder(i + 1)}`
         );
 
-      sql = `UPDATE ${this.escapeIdentifier(tableName)} SET ${updateFields.join(
+      sql = `UPDATE ${tableName} SET ${updateFields.join(
         ", "
-      )}`;
+      )}${this.buildOutput(request.returning, "INSERTED")}`;
       params = Object.entries(values[0])
-        .filter(([key]) => key !== "id")
+        .filter(([key]) => !isKey(key))
         .map(([, value]) => value);
 
-      if (where.length > 0) {
-        const whereResults = where.map((w, i) =>
-          this.buildWhereClause(w, params.length)
-        );
-        const whereClause = whereResults.map((r) => r.sql).join(" AND ");
-        sql += ` WHERE ${whereClause}`;
-        params.push(...whereResults.flatMap((r) => r.values));
+      const filter = this.buildFilter(request, params);
+      if (filter) {
+        sql += ` WHERE ${filter}`;
       }
     } else {
-      // Bulk update using CASE statement
-      const updateFields = Object.keys(values[0])
-        .filter((key) => key !== "id")
-        .map((field) => {
-          const cases = values
-            .map(
-              (v, i) =>
-                `WHEN id = ${
-                  this.dialect === "postgres" ? `$${i * 2 + 1}` : "?"
-                } THEN ${this.dialect === "postgres" ? `$${i * 2 + 2}` : "?"}`
-            )
-            .join(" ");
-          return `${this.escapeIdentifier(
-            field
-          )} = CASE ${cases} ELSE ${this.escapeIdentifier(field)} END`;
-        });
+      // Bulk update using CASE statement, matching rows on their primary key
+      const bind = (value: any) => {
+        params.push(value);
+        return this.placeholder(params.length);
+      };
+      // PostgreSQL can reference a parameter more than once, so bind keys once
+      const reuseKeys = this.dialect === "postgres" || this.dialect === "mssql";
+      const keyPlaceholders = reuseKeys
+        ? values.map((row) => primaryKey.map((key) => bind(row[key])))
+        : [];
+      const keyPlaceholder = (row: Record<string, any>, i: number, j: number) =>
+        reuseKeys ? keyPlaceholders[i][j] : bind(row[primaryKey[j]]);
+      const matchRow = (row: Record<string, any>, i: number) =>
+        primaryKey
+          .map(
+            (key, j) =>
+              `${this.escapeIdentifier(key)} = ${keyPlaceholder(row, i, j)}`
+          )
+          .join(" AND ");
+
+      const fields = Array.from(
+        new Set(values.flatMap((row) => Object.keys(row)))
+      ).filter((key) => !isKey(key));
+
+      const updateFields = fields.map((field) => {
+        const cases = values
+          .map((row, i) =>
+            field in row
+              ? `WHEN ${matchRow(row, i)} THEN ${bind(row[field])}`
+              : ""
+          )
+          .filter(Boolean)
+          .join(" ");
+        return `${this.escapeIdentifier(
+          field
+        )} = CASE ${cases} ELSE ${this.escapeIdentifier(field)} END`;
+      });
+
+      let whereClause =
+        primaryKey.length === 1
+          ? `${this.escapeIdentifier(primaryKey[0])} IN (${values
+              .map((row, i) => keyPlaceholder(row, i, 0))
+              .join(", ")})`
+          : values.map((row, i) => `(${matchRow(row, i)})`).join(" OR ");
+      const filter = this.buildFilter(request, params);
+      if (filter) {
+        whereClause = `${
+          primaryKey.length === 1 ? whereClause : `(${whereClause})`
+        } AND ${filter}`;
+      }
 
-      sql = `UPDATE ${this.escapeIdentifier(tableName)} SET ${updateFields.join(
+      sql = `UPDATE ${tableName} SET ${updateFields.join(
         ", "
-      )} WHERE id IN (${values
-        .map((_, i) => (this.dialect === "postgres" ? `$${i + 1}` : "?"))
-        .join(", ")})`;
-      params = values.flatMap((v) => [
-        v.id,
-        ...Object.entries(v)
-          .filter(([key]) => key !== "id")
-          .map(([, value]) => value),
-      ]);
+      )}${this.buildOutput(
+        request.returning,
+        "INSERTED"
+      )} WHERE ${whereClause}`;
     }
 
-    return { sql, params };
+    sql += this.buildReturning(request.returning);
+    // Key columns are never updated, so the rows can be found again by key
+    const returning = this.buildReturningFallback(
+      request,
+      "select-after",
+      values.length === 1 ? where : [this.buildKeyMatch(primaryKey, values)]
+    );
+
+    return returning ? { sql, params, returning } : { sql, params };
   }
 
   private buildDelete(request: ParsedRequest): RestQLResponse {
     const { table, where = [] } = request;
     const tableName = this.getTableName(table);
 
-    let sql = `DELETE FROM ${tableName}`;
-    let params: any[] = [];
-
-    if (where.length > 0) {
-      // Check if this is a bulk delete operation by looking at the where clauses
-      const isBulkDelete =
-        where.length > 1 &&
-        where.every(
-          (w) => isWhereCondition(w) && w.field === "id" && w.operator === "="
-        );
+    let sql = `DELETE FROM ${tableName}${this.buildOutput(
+      request.returning,
+      "DELETED"
+    )}`;
+    const params: any[] = [];
 
-      if (isBulkDelete) {
-        // For PostgreSQL, use ANY operator; for MySQL, use IN clause
-        const ids = where.map((w) => (w as WhereCondition).value);
-        if (this.dialect === "postgres") {
-          sql += ` WHERE "id" = ANY($1)`;
-          params = [ids];
-        } else {
-          sql += ` WHERE ${this.escapeIdentifier("id")} IN (${ids
-            .map(() => (this.dialect === "postgres" ? "$?" : "?"))
-            .join(", ")})`;
-          params = ids;
-        }
-      } else {
-        // For single deletes or other conditions
-        const whereResults = where.map((w) =>
-          this.buildWhereClause(w, params.length)
-        );
-        const whereClause = whereResults.map((r) => r.sql).join(" AND ");
-        sql += ` WHERE ${whereClause}`;
-        params.push(...whereResults.flatMap((r) => r.values));
-      }
+    const filter = this.buildFilter(request, params);
+    if (filter) {
+      sql += ` WHERE ${filter}`;
     }
 
-    return { sql, params };
+    sql += this.buildReturning(request.returning);
+    const returning = this.buildReturningFallback(
+      request,
+      "select-before",
+      where
+    );
+
+    return returning ? { sql, params, returning } : { sql, params };
   }
 
   public build(request: ParsedRequest): RestQLResponse {
@@ -349,7 +970,7 @@ export class SQLBuilder {
       case "DELETE":
         return this.buildDelete(request);
       default:
-        throw new Error(`Unsupported operation: ${request.operation}`);
+        throw new RestQLError(`Unsupported operation: ${request.operation}`);
     }
   }
 }
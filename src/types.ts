@@ -1,4 +1,4 @@
-export type SQLDialect = "mysql" | "postgres" | "sqlite";
+export type SQLDialect = "mysql" | "postgres" | "sqlite" | "mssql";
 
 export type JoinType = "INNER" | "LEFT" | "RIGHT" | "FULL";
 
@@ -9,23 +9,285 @@ export interface JoinCondition {
   on: WhereClause[];
 }
 
+export type ColumnType =
+  | "string"
+  | "int"
+  | "float"
+  | "boolean"
+  | "date"
+  | "datetime"
+  | "uuid"
+  | "json"
+  | "enum";
+
+export interface ColumnSchema {
+  type: ColumnType;
+  /** Allowed values for "enum" columns */
+  values?: (string | number)[];
+  nullable?: boolean;
+  /** Value a PUT gives the column when the body leaves it out, null otherwise */
+  default?: unknown;
+  /** Never written through the API, e.g. generated or audit columns */
+  readOnly?: boolean;
+}
+
+export interface TableSchema {
+  /** Exposed columns, either as a bare type or a full column definition */
+  columns: Record<string, ColumnType | ColumnSchema>;
+  primaryKey?: string | string[];
+  /**
+   * Indexes, each a column or a list of columns. Filtering on the leading
+   * column of an index, or on the primary key, is cheap for `cost`
+   */
+  indexes?: (string | string[])[];
+  /** References to other tables, which enable nested routes */
+  foreignKeys?: ForeignKey[];
+}
+
+/**
+ * A reference from this table to the primary key of another, e.g.
+ * `{ columns: "user_id", references: "users" }`, which serves
+ * `/users/42/orders` as the orders with `user_id = 42`
+ */
+export interface ForeignKey {
+  /** Referencing columns, in the order of the referenced primary key */
+  columns: string | string[];
+  references: string;
+}
+
+export interface SchemaConfig {
+  /** Database schema the tables live in (e.g. "public") */
+  name?: string;
+  tables: Record<string, TableSchema>;
+}
+
+export type Operation = "CREATE" | "READ" | "UPDATE" | "DELETE";
+
+/**
+ * What one role may do with one table. Omitted column lists allow every
+ * column
+ */
+export interface TablePermissions {
+  operations: Operation[];
+  /** Columns that may be selected, aggregated, grouped or returned */
+  readable?: string[];
+  /** Columns that may appear in where, having and join conditions */
+  filterable?: string[];
+  /** Columns that may appear in orderBy, and so in cursors */
+  sortable?: string[];
+  /** Columns that may be inserted, updated or merged on conflict */
+  writable?: string[];
+  /**
+   * Columns read through a mask. They are readable, but can't be filtered,
+   * sorted, grouped, aggregated or joined on
+   */
+  masked?: Record<string, MaskStrategy>;
+}
+
+/**
+ * How a masked column is redacted in the rows read:
+ * - "omit": drop the column
+ * - "null": replace the value with null
+ * - "hash": replace the value with its SHA-256 hex digest
+ * - "partial": keep the first character and domain of emails
+ *   (`j***@example.com`) and the last 4 characters of anything else
+ */
+export type MaskStrategy = "omit" | "null" | "hash" | "partial";
+
+export interface PermissionsConfig {
+  /** Permissions per table, then per role. Anything not listed is denied */
+  tables: Record<string, Record<string, TablePermissions>>;
+  /** Role of requests made without a principal */
+  anonymousRole?: string;
+}
+
+/**
+ * The authenticated caller of a request
+ */
+export interface Principal {
+  role: string;
+  /** Any other claims, such as the user id */
+  [claim: string]: any;
+}
+
+export interface PolicyContext {
+  principal?: Principal;
+  operation: Operation;
+  table: string;
+}
+
+/**
+ * Row-level security for one table: the clause every row the request reads
+ * or writes must match, or undefined for no restriction. On INSERT, its
+ * `=` conditions are written into every row
+ */
+export type RowPolicy = (
+  context: PolicyContext
+) => WhereClause | WhereClause[] | undefined;
+
 export interface RestQLConfig {
   dialect: SQLDialect;
-  schema?: string;
+  /**
+   * Database schema name, or a schema definition declaring the tables and
+   * columns exposed through the API
+   */
+  schema?: string | SchemaConfig;
+  /** Role-based access to tables and columns */
+  permissions?: PermissionsConfig;
+  /** Row-level security policies per table */
+  policies?: Record<string, RowPolicy>;
+  /** Complexity budget of queries, see `CostModel` */
+  cost?: CostOptions;
+  /** Page size limits of reads */
+  pagination?: PaginationConfig;
+  /** Translation of API field names to database columns */
+  fieldMapping?: FieldMappingConfig;
+  /** Safeguards of updates and deletes on whole tables */
+  mutations?: MutationConfig;
+}
+
+export interface MutationConfig {
+  /**
+   * Tables whose rows may all be updated or deleted by a single request,
+   * others need a `where`, a key or a parent route to narrow the rows
+   */
+  allowUnfiltered?: string[];
 }
 
-export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+/**
+ * How API field names translate to database columns. Explicit names take
+ * precedence over the strategy, and names that neither covers are used as
+ * they are
+ */
+export interface FieldMappingConfig {
+  /** "snake_case" maps `createdAt` to the column `created_at` */
+  strategy?: "snake_case";
+  /** Column names keyed by API name, per table */
+  tables?: Record<string, Record<string, string>>;
+}
+
+export interface PageLimits {
+  /** Limit of reads that don't set one */
+  defaultLimit?: number;
+  /** Highest limit, larger ones are lowered to it. Implies `defaultLimit` */
+  maxLimit?: number;
+  /** Highest offset, larger ones are rejected */
+  maxOffset?: number;
+}
+
+export interface PaginationConfig extends PageLimits {
+  /** Overrides per table */
+  tables?: Record<string, PageLimits>;
+}
+
+/**
+ * Points added to the cost of a query for each expensive construct
+ */
+export interface CostWeights {
+  /** Every query */
+  base: number;
+  /** Each join or embedded table */
+  join: number;
+  /** A read without `limit` */
+  unboundedRead: number;
+  /** Each LIKE pattern starting with a wildcard */
+  leadingWildcard: number;
+  /** Each REGEXP condition */
+  regexp: number;
+  /** Each condition on a column without an index, per the schema */
+  unindexedFilter: number;
+}
+
+export interface CostOptions {
+  /** Highest cost a query may have */
+  budget: number;
+  /**
+   * "reject" throws a `QueryCostError` above the budget. "clamp" first
+   * bounds unbounded reads with `clampLimit`, and only rejects queries
+   * still above the budget. Defaults to "reject"
+   */
+  onExceed?: "reject" | "clamp";
+  /** Limit given to unbounded reads when clamping, defaults to 100 */
+  clampLimit?: number;
+  weights?: Partial<CostWeights>;
+}
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
 export interface RestQLRequest {
   method: HttpMethod;
   path: string;
   body?: any;
   query?: Record<string, string> | any;
+  /** Request headers, keyed by lowercase name */
+  headers?: Record<string, string | string[] | undefined>;
+  /** Caller checked against `permissions` */
+  principal?: Principal;
 }
 
 export interface RestQLResponse {
   sql: string;
   params: any[];
+  /** How to fetch the affected rows on dialects without RETURNING */
+  returning?: ReturningFallback;
+  meta?: QueryMeta;
+}
+
+export interface QueryMeta {
+  /**
+   * Rows were fetched in reverse order to page backwards from a `before`
+   * cursor and must be reversed to match the requested order
+   */
+  reversed?: boolean;
+  /** Masks to apply to the result columns, keyed by column name */
+  masks?: Record<string, MaskStrategy>;
+  /** Effective limit of a read, when set by `pagination` or the cost budget */
+  limit?: number;
+  /** Result columns holding embedded rows, which some drivers return as JSON text */
+  embeds?: string[];
+}
+
+/**
+ * MySQL has no RETURNING clause, so the affected rows are fetched with a
+ * separate SELECT:
+ * - "select-before": run `select` before the statement (DELETE)
+ * - "select-after": run `select` after the statement (UPDATE, and INSERT when
+ *   every row carries its primary key)
+ * - "select-inserted": after the statement, select the rows by the
+ *   auto-increment ids reported by the driver, see
+ *   `SQLBuilder.buildInsertedSelect`. Never used for upserts
+ */
+export interface ReturningFallback {
+  strategy: "select-before" | "select-after" | "select-inserted";
+  fields: SelectField[];
+  table: string;
+  primaryKey: string[];
+  /** Row policy the selected rows must satisfy */
+  policy?: WhereClause[];
+  select?: RestQLResponse;
+}
+
+/**
+ * Normalized outcome of running a statement
+ */
+export interface QueryResult {
+  /** Rows read, or the affected rows when `returning` was requested */
+  rows: Record<string, any>[];
+  /** Number of rows read or affected */
+  rowCount: number;
+  /** First auto-generated id of an INSERT, where the database reports it */
+  insertId?: number;
+  /** Effective limit of a read, when set by `pagination` or the cost budget */
+  limit?: number;
+}
+
+/**
+ * Runs statements against a database connection. See `src/drivers` for the
+ * bundled `pg`, `mysql2` and `better-sqlite3` drivers
+ */
+export interface Driver {
+  dialect: SQLDialect;
+  execute(sql: string, params: any[]): Promise<QueryResult>;
 }
 
 export type Operator =
@@ -61,35 +323,129 @@ export interface WhereGroup {
 
 export type WhereClause = WhereCondition | WhereGroup;
 
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max";
+
+/**
+ * A structured select item: an aggregate such as
+ * `{ fn: "sum", field: "amount", as: "total" }`, or a plain column with an
+ * alias. Aliases can be referenced from `having` and `orderBy`
+ */
+export interface SelectExpression {
+  fn?: AggregateFunction;
+  /** Column name, or "*" for `count` */
+  field: string;
+  as?: string;
+}
+
+export type SelectField = string | SelectExpression;
+
+/**
+ * Rows of a related table returned as nested JSON, keyed by the table
+ * name: `{ orders: ["id", "total"] }`
+ */
+export type EmbedSelect = { [table: string]: (SelectField | EmbedSelect)[] };
+
+/**
+ * A related table read into a JSON column named after it. `join` and
+ * `many` are resolved from the foreign keys declared in the schema
+ */
+export interface Embed {
+  table: string;
+  fields: SelectField[];
+  embeds?: Embed[];
+  /** [embedded column, embedding column] pairs the rows are matched on */
+  join?: [string, string][];
+  /** The embedded table references the embedding one, so it reads an array */
+  many?: boolean;
+  /** Row-level security clauses of the embedded table */
+  policy?: WhereClause[];
+}
+
 export interface OrderByClause {
   field: string;
   direction: "ASC" | "DESC";
 }
 
+/**
+ * Turn an INSERT into an upsert. "merge" updates the conflicting row with
+ * the inserted values, "ignore" keeps the existing row
+ */
+export interface OnConflictOptions {
+  action: "merge" | "ignore";
+  /** Conflict target columns, defaults to the primary key */
+  target?: string[];
+  /** Columns to overwrite on merge, defaults to every inserted non-target column */
+  update?: string[];
+}
+
 export interface Pagination {
   limit?: number;
   offset?: number;
+  /** Cursor from `encodeCursor`: rows after this position in orderBy */
+  after?: string;
+  /** Cursor from `encodeCursor`: rows before this position in orderBy */
+  before?: string;
+}
+
+export interface KeysetCursor {
+  direction: "after" | "before";
+  /** One value per orderBy field */
+  values: any[];
 }
 
 export interface QueryOptions extends Pagination {
-  select?: string[];
+  select?: (SelectField | EmbedSelect)[];
   where?: WhereClause[];
   joins?: JoinCondition[];
   orderBy?: OrderByClause[];
   groupBy?: string[];
   having?: WhereClause[];
+  /** Columns to return from INSERT, UPDATE and DELETE */
+  returning?: string[];
+  onConflict?: OnConflictOptions;
+}
+
+/**
+ * Row a nested route passes through above the direct parent, e.g. order 7
+ * of `/users/42/orders/7/items`
+ */
+export interface RouteAncestor {
+  table: string;
+  /** The row's key and its link to its own parent */
+  where: WhereCondition[];
 }
 
 export interface ParsedRequest {
-  operation: "CREATE" | "READ" | "UPDATE" | "DELETE";
+  operation: Operation;
   table: string;
-  fields?: string[];
+  fields?: SelectField[];
+  embeds?: Embed[];
   where?: WhereClause[];
+  /** Rows that must exist for a nested route to match anything */
+  ancestors?: RouteAncestor[];
   joins?: JoinCondition[];
   orderBy?: OrderByClause[];
   groupBy?: string[];
   having?: WhereClause[];
   limit?: number;
   offset?: number;
+  cursor?: KeysetCursor;
   values?: Record<string, any>[];
+  /**
+   * Values a PUT gives the columns its rows leave out, which makes it
+   * replace the rows rather than update them
+   */
+  reset?: Record<string, any>;
+  /** Columns to return, aliased back to API names by `FieldMapper` */
+  returning?: SelectField[];
+  onConflict?: OnConflictOptions;
+  /** Key columns identifying rows, defaults to ["id"] */
+  primaryKey?: string[];
+  /**
+   * Row-level security clauses, ANDed into every statement apart from the
+   * client's where
+   */
+  policy?: WhereClause[];
+  /** Masks of the result columns, set by `PermissionRegistry` */
+  masks?: Record<string, MaskStrategy>;
 }
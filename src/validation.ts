@@ -7,7 +7,16 @@ import {
   LogicalOperator,
   OrderByClause,
   JoinCondition,
+  OnConflictOptions,
+  AggregateFunction,
+  EmbedSelect,
+  SelectExpression,
+  SelectField,
 } from "./types";
+import { decodeCursor } from "./cursor";
+import { joinPath, ValidationError } from "./errors";
+
+export { ValidationError };
 
 const MAX_QUERY_DEPTH = 5;
 const MAX_CONDITIONS_PER_GROUP = 10;
@@ -57,6 +66,15 @@ const SAFE_TABLE_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,63}$/; // Add length limit
 export const SAFE_FIELD_PATTERN =
   /^(\*|[a-zA-Z][a-zA-Z0-9_]*(?:\.[a-zA-Z][a-zA-Z0-9_]*)*)$/; // Stricter dot notation
 
+export const SAFE_ALIAS_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,63}$/;
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = [
+  "count",
+  "sum",
+  "avg",
+  "min",
+  "max",
+];
+
 // Add dangerous patterns to check against
 const DANGEROUS_PATTERNS = [
   /;\s*$/, // Trailing semicolon
@@ -72,13 +90,6 @@ const DANGEROUS_PATTERNS = [
   /;\s*DELETE/i, // Chained DELETE
 ];
 
-export class ValidationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "ValidationError";
-  }
-}
-
 export interface ValidationOptions {
   maxQueryDepth?: number;
   maxConditionsPerGroup?: number;
@@ -89,8 +100,18 @@ export interface ValidationOptions {
   allowedFieldPattern?: RegExp;
   maxValueLength?: number;
   preventSqlKeywords?: boolean;
+  /**
+   * "typed" (the default) relies on parameter binding and only rejects
+   * values that can't be bound, such as objects. Declared column types are
+   * checked by the schema. "legacy" also rejects values containing quotes,
+   * dashes, slashes, comment markers or, with `preventSqlKeywords`, SQL
+   * keywords
+   */
+  valueValidation?: ValueValidation;
 }
 
+export type ValueValidation = "typed" | "legacy";
+
 export function validateAndSanitizeQuery(
   query: QueryOptions,
   options: ValidationOptions = {}
@@ -105,24 +126,27 @@ export function validateAndSanitizeQuery(
     allowedFieldPattern = ALLOWED_FIELD_PATTERN,
     maxValueLength,
     preventSqlKeywords,
+    valueValidation = "typed",
   } = options;
 
   // Validate and sanitize select fields
-  const select = validateAndSanitizeFields(
+  const select = validateAndSanitizeSelect(
     maxSelectFields,
-    "select",
     allowedFieldPattern,
-    query.select
+    query.select,
+    { path: "select", depth: 0, maxDepth: maxQueryDepth }
   );
 
   // Validate and sanitize joins
   const joins = query.joins
-    ? query.joins.map((join) =>
+    ? query.joins.map((join, i) =>
         validateJoinCondition(allowedFieldPattern, join, {
+          path: joinPath("joins", i),
           allowedOperators,
           allowedLogicalOperators,
           maxValueLength,
           preventSqlKeywords,
+          valueValidation,
         })
       )
     : undefined;
@@ -130,8 +154,9 @@ export function validateAndSanitizeQuery(
   // Validate and sanitize where clauses
   const where = query.where
     ? Array.isArray(query.where)
-      ? query.where.map((clause) =>
+      ? query.where.map((clause, i) =>
           validateAndSanitizeWhereClause(clause, {
+            path: joinPath("where", i),
             depth: 0,
             maxDepth: maxQueryDepth,
             maxConditions: maxConditionsPerGroup,
@@ -140,10 +165,12 @@ export function validateAndSanitizeQuery(
             allowedFieldPattern,
             maxValueLength,
             preventSqlKeywords,
+            valueValidation,
           })
         )
       : [
           validateAndSanitizeWhereClause(query.where, {
+            path: "where",
             depth: 0,
             maxDepth: maxQueryDepth,
             maxConditions: maxConditionsPerGroup,
@@ -152,6 +179,7 @@ export function validateAndSanitizeQuery(
             allowedFieldPattern,
             maxValueLength,
             preventSqlKeywords,
+            valueValidation,
           }),
         ]
     : undefined;
@@ -166,8 +194,9 @@ export function validateAndSanitizeQuery(
 
   // Validate and sanitize having clauses
   const having = query.having
-    ? query.having.map((clause) =>
+    ? query.having.map((clause, i) =>
         validateAndSanitizeWhereClause(clause, {
+          path: joinPath("having", i),
           depth: 0,
           maxDepth: maxQueryDepth,
           maxConditions: maxConditionsPerGroup,
@@ -176,6 +205,7 @@ export function validateAndSanitizeQuery(
           allowedFieldPattern,
           maxValueLength,
           preventSqlKeywords,
+          valueValidation,
         })
       )
     : undefined;
@@ -186,9 +216,28 @@ export function validateAndSanitizeQuery(
     query.orderBy
   );
 
+  // Validate and sanitize returning fields
+  const returning = validateAndSanitizeFields(
+    maxSelectFields,
+    "returning",
+    allowedFieldPattern,
+    query.returning
+  );
+
+  // Validate and sanitize upsert options
+  const onConflict = validateAndSanitizeOnConflict(
+    allowedFieldPattern,
+    query.onConflict
+  );
+
   // Validate and sanitize pagination
   const limit = validateAndSanitizeLimit(query.limit);
   const offset = validateAndSanitizeOffset(query.offset);
+  const { after, before } = validateAndSanitizeCursor(query, {
+    maxValueLength,
+    preventSqlKeywords,
+    valueValidation,
+  });
 
   return {
     select,
@@ -199,6 +248,10 @@ export function validateAndSanitizeQuery(
     orderBy,
     limit,
     offset,
+    after,
+    before,
+    returning,
+    onConflict,
   };
 }
 
@@ -215,53 +268,187 @@ function validateAndSanitizeFields(
 
   if (fields.length > maxFields) {
     throw new ValidationError(
-      `Too many ${context} fields. Maximum allowed is ${maxFields}`
+      `Too many ${context} fields. Maximum allowed is ${maxFields}`,
+      { code: "TOO_MANY_FIELDS", path: context }
     );
   }
 
-  return fields.map((field) => {
-    // Allow * for select all
-    if (field === "*") {
-      return field;
-    }
+  return fields.map((field, i) =>
+    validateAndSanitizeField(field, joinPath(context, i))
+  );
+}
 
-    // Check for dangerous patterns first
-    if (DANGEROUS_PATTERNS.some((pattern) => pattern.test(field))) {
-      throw new ValidationError(
-        `Invalid field name "${field}". Contains dangerous patterns`
-      );
+function validateAndSanitizeField(field: string, path?: string): string {
+  // Allow * for select all
+  if (field === "*") {
+    return field;
+  }
+
+  // Check for dangerous patterns first
+  if (DANGEROUS_PATTERNS.some((pattern) => pattern.test(field))) {
+    throw new ValidationError(
+      `Invalid field name "${field}". Contains dangerous patterns`,
+      { code: "INVALID_FIELD", path }
+    );
+  }
+
+  // Check field pattern
+  if (!SAFE_FIELD_PATTERN.test(field)) {
+    throw new ValidationError(
+      `Invalid field name "${field}". Must start with a letter and contain only alphanumeric characters, underscores, and dots`,
+      { code: "INVALID_FIELD", path }
+    );
+  }
+
+  // Check for SQL keywords in each part of the field name
+  const fieldParts = field.split(".");
+  const containsSqlKeyword = fieldParts.some((part) => {
+    const lowerPart = part.toLowerCase();
+    return SQL_KEYWORDS.some(
+      (keyword) =>
+        // Check if the part exactly matches a keyword or contains it as a whole word
+        lowerPart === keyword || new RegExp(`\\b${keyword}\\b`).test(lowerPart)
+    );
+  });
+
+  if (containsSqlKeyword) {
+    throw new ValidationError(`Field name "${field}" contains SQL keywords`, {
+      code: "INVALID_FIELD",
+      path,
+    });
+  }
+
+  return field;
+}
+
+export function isEmbedSelect(
+  field: SelectField | EmbedSelect
+): field is EmbedSelect {
+  return typeof field === "object" && !("field" in field);
+}
+
+function validateAndSanitizeSelect(
+  maxFields: number,
+  allowedFieldPattern: RegExp,
+  fields?: (SelectField | EmbedSelect)[],
+  embedding: { path: string; depth: number; maxDepth: number } = {
+    path: "select",
+    depth: 0,
+    maxDepth: MAX_QUERY_DEPTH,
+  }
+): (SelectField | EmbedSelect)[] | undefined {
+  if (!fields) {
+    return undefined;
+  }
+
+  if (fields.length > maxFields) {
+    throw new ValidationError(
+      `Too many select fields. Maximum allowed is ${maxFields}`,
+      { code: "TOO_MANY_FIELDS", path: embedding.path }
+    );
+  }
+
+  return fields.map((field, i) => {
+    const path = joinPath(embedding.path, i);
+    if (typeof field === "string") {
+      return validateAndSanitizeField(field, path);
+    }
+    if (!isEmbedSelect(field)) {
+      return validateAndSanitizeSelectExpression(field, path);
     }
+    return validateAndSanitizeEmbed(maxFields, allowedFieldPattern, field, {
+      ...embedding,
+      path,
+    });
+  });
+}
+
+/**
+ * An embedded select names one table and lists plain columns of it, or
+ * further embeds, nested no deeper than `maxQueryDepth`
+ */
+function validateAndSanitizeEmbed(
+  maxFields: number,
+  allowedFieldPattern: RegExp,
+  embed: EmbedSelect,
+  context: { path: string; depth: number; maxDepth: number }
+): EmbedSelect {
+  const entries = Object.entries(embed);
+  if (entries.length !== 1 || !Array.isArray(entries[0][1])) {
+    throw new ValidationError(
+      "An embedded select must map one table to a list of fields",
+      { code: "INVALID_FIELD", path: context.path }
+    );
+  }
+  const [[table, select]] = entries;
+  const path = joinPath(context.path, table);
+  if (!SAFE_TABLE_PATTERN.test(table)) {
+    throw new ValidationError(`Invalid table name "${table}"`, {
+      code: "INVALID_FIELD",
+      path,
+    });
+  }
+  if (context.depth >= context.maxDepth) {
+    throw new ValidationError(
+      `Embedding too deep. Maximum depth is ${context.maxDepth}`,
+      { code: "QUERY_TOO_DEEP", path }
+    );
+  }
 
-    // Check field pattern
-    if (!SAFE_FIELD_PATTERN.test(field)) {
+  const fields = validateAndSanitizeSelect(
+    maxFields,
+    allowedFieldPattern,
+    select,
+    { path, depth: context.depth + 1, maxDepth: context.maxDepth }
+  );
+  fields?.forEach((field, i) => {
+    if (typeof field === "object" && !isEmbedSelect(field) && field.fn) {
       throw new ValidationError(
-        `Invalid field name "${field}". Must start with a letter and contain only alphanumeric characters, underscores, and dots`
+        "Aggregates can't be used in an embedded select",
+        { code: "INVALID_FIELD", path: joinPath(joinPath(path, i), "fn") }
       );
     }
+  });
+  return { [table]: fields ?? [] };
+}
 
-    // Check for SQL keywords in each part of the field name
-    const fieldParts = field.split(".");
-    const containsSqlKeyword = fieldParts.some((part) => {
-      const lowerPart = part.toLowerCase();
-      return SQL_KEYWORDS.some(
-        (keyword) =>
-          // Check if the part exactly matches a keyword or contains it as a whole word
-          lowerPart === keyword ||
-          new RegExp(`\\b${keyword}\\b`).test(lowerPart)
-      );
+function validateAndSanitizeSelectExpression(
+  expression: SelectExpression,
+  path: string
+): SelectExpression {
+  const fn = expression.fn?.toLowerCase() as AggregateFunction | undefined;
+  if (fn !== undefined && !AGGREGATE_FUNCTIONS.includes(fn)) {
+    throw new ValidationError(
+      `Aggregate function "${expression.fn}" is not allowed`,
+      { code: "OPERATOR_NOT_ALLOWED", path: joinPath(path, "fn") }
+    );
+  }
+
+  if (expression.field === "*" && fn !== "count") {
+    throw new ValidationError('Only "count" can be applied to "*"', {
+      code: "INVALID_FIELD",
+      path: joinPath(path, "field"),
     });
+  }
 
-    if (containsSqlKeyword) {
-      throw new ValidationError(`Field name "${field}" contains SQL keywords`);
-    }
+  if (expression.as !== undefined && !SAFE_ALIAS_PATTERN.test(expression.as)) {
+    throw new ValidationError(
+      `Invalid alias "${expression.as}". Must start with a letter and contain only alphanumeric characters and underscores`,
+      { code: "INVALID_ALIAS", path: joinPath(path, "as") }
+    );
+  }
 
-    return field;
-  });
+  return {
+    ...(fn && { fn }),
+    field: validateAndSanitizeField(expression.field, joinPath(path, "field")),
+    ...(expression.as !== undefined && { as: expression.as }),
+  };
 }
 
 function validateAndSanitizeWhereClause(
   clause: WhereClause,
   context: {
+    path: string;
     depth: number;
     maxDepth: number;
     maxConditions: number;
@@ -270,11 +457,13 @@ function validateAndSanitizeWhereClause(
     allowedFieldPattern: RegExp;
     maxValueLength?: number;
     preventSqlKeywords?: boolean;
+    valueValidation?: ValueValidation;
   }
 ): WhereClause {
   if (context.depth > context.maxDepth) {
     throw new ValidationError(
-      `Query too complex. Maximum depth is ${context.maxDepth}`
+      `Query too complex. Maximum depth is ${context.maxDepth}`,
+      { code: "QUERY_TOO_DEEP", path: context.path }
     );
   }
 
@@ -296,6 +485,7 @@ function isWhereGroup(clause: WhereClause): clause is WhereGroup {
 function validateAndSanitizeWhereGroup(
   group: WhereGroup,
   context: {
+    path: string;
     depth: number;
     maxDepth: number;
     maxConditions: number;
@@ -304,6 +494,7 @@ function validateAndSanitizeWhereGroup(
     allowedFieldPattern: RegExp;
     maxValueLength?: number;
     preventSqlKeywords?: boolean;
+    valueValidation?: ValueValidation;
   }
 ): WhereGroup {
   if (
@@ -311,21 +502,27 @@ function validateAndSanitizeWhereGroup(
     !context.allowedLogicalOperators.includes(group.operator)
   ) {
     throw new ValidationError(
-      `Logical operator "${group.operator}" is not allowed`
+      `Logical operator "${group.operator}" is not allowed`,
+      { code: "OPERATOR_NOT_ALLOWED", path: joinPath(context.path, "operator") }
     );
   }
 
   if (group.conditions.length > context.maxConditions) {
     throw new ValidationError(
-      `Too many conditions in group. Maximum allowed is ${context.maxConditions}`
+      `Too many conditions in group. Maximum allowed is ${context.maxConditions}`,
+      {
+        code: "TOO_MANY_CONDITIONS",
+        path: joinPath(context.path, "conditions"),
+      }
     );
   }
 
   return {
     operator: group.operator,
-    conditions: group.conditions.map((condition) =>
+    conditions: group.conditions.map((condition, i) =>
       validateAndSanitizeWhereClause(condition, {
         ...context,
+        path: joinPath(joinPath(context.path, "conditions"), i),
         depth: context.depth + 1,
       })
     ),
@@ -337,15 +534,18 @@ function validateAndSanitizeWhereCondition(
   allowedFieldPattern: RegExp,
   condition: WhereCondition,
   context: {
+    path: string;
     allowedOperators?: Operator[];
     maxValueLength?: number;
     preventSqlKeywords?: boolean;
+    valueValidation?: ValueValidation;
   }
 ): WhereCondition {
   // Validate field name
   if (!allowedFieldPattern.test(condition.field)) {
     throw new ValidationError(
-      `Invalid field name "${condition.field}". Must start with a letter and contain only alphanumeric characters, underscores, and dots`
+      `Invalid field name "${condition.field}". Must start with a letter and contain only alphanumeric characters, underscores, and dots`,
+      { code: "INVALID_FIELD", path: joinPath(context.path, "field") }
     );
   }
 
@@ -355,47 +555,110 @@ function validateAndSanitizeWhereCondition(
     !context.allowedOperators.includes(condition.operator)
   ) {
     throw new ValidationError(
-      `Operator "${condition.operator}" is not allowed`
+      `Operator "${condition.operator}" is not allowed`,
+      { code: "OPERATOR_NOT_ALLOWED", path: joinPath(context.path, "operator") }
     );
   }
 
-  // Validate value
-  validateValue(condition.value, {
+  const valueContext = {
     maxValueLength: context.maxValueLength,
     preventSqlKeywords: context.preventSqlKeywords,
-  });
+    valueValidation: context.valueValidation,
+  };
+  const valuePath = joinPath(context.path, "value");
+
+  switch (condition.operator) {
+    case "IS NULL":
+    case "IS NOT NULL":
+      // Null checks take no value
+      return {
+        field: condition.field,
+        operator: condition.operator,
+        value: null,
+      };
+
+    case "IN":
+    case "NOT IN": {
+      const list = Array.isArray(condition.value)
+        ? condition.value
+        : [condition.value];
+      if (list.length === 0) {
+        throw new ValidationError(
+          `Operator "${condition.operator}" requires at least one value`,
+          { code: "INVALID_VALUE", path: valuePath }
+        );
+      }
+      list.forEach((item, i) =>
+        validateValue(item, valueContext, joinPath(valuePath, i))
+      );
+      return { ...condition, value: list };
+    }
+
+    case "BETWEEN":
+      if (!Array.isArray(condition.value) || condition.value.length !== 2) {
+        throw new ValidationError(
+          'Operator "BETWEEN" requires an array of exactly two values',
+          { code: "INVALID_VALUE", path: valuePath }
+        );
+      }
+      condition.value.forEach((item, i) =>
+        validateValue(item, valueContext, joinPath(valuePath, i))
+      );
+      return condition;
 
-  return condition;
+    default:
+      validateValue(condition.value, valueContext, valuePath);
+      return condition;
+  }
 }
 
 function validateJoinCondition(
   allowedFieldPattern: RegExp,
   join: JoinCondition,
   context: {
+    path: string;
     allowedOperators?: Operator[];
     allowedLogicalOperators?: LogicalOperator[];
     maxValueLength?: number;
     preventSqlKeywords?: boolean;
+    valueValidation?: ValueValidation;
   }
 ): JoinCondition {
   // Validate table name
   if (!SAFE_TABLE_PATTERN.test(join.table)) {
     throw new ValidationError(
-      `Invalid table name "${join.table}". Must start with a letter and contain only alphanumeric characters and underscores`
+      `Invalid table name "${join.table}". Must start with a letter and contain only alphanumeric characters and underscores`,
+      { code: "INVALID_TABLE", path: joinPath(context.path, "table") }
     );
   }
 
   // Validate alias if present
   if (join.alias && !SAFE_TABLE_PATTERN.test(join.alias)) {
     throw new ValidationError(
-      `Invalid alias "${join.alias}". Must start with a letter and contain only alphanumeric characters and underscores`
+      `Invalid alias "${join.alias}". Must start with a letter and contain only alphanumeric characters and underscores`,
+      { code: "INVALID_ALIAS", path: joinPath(context.path, "alias") }
     );
   }
 
   return {
     ...join,
-    on: join.on.map((clause) =>
-      validateAndSanitizeWhereClause(clause, {
+    on: join.on.map((clause, i) => {
+      const path = joinPath(joinPath(context.path, "on"), i);
+      // Values written as table.column are rendered as column references,
+      // so they must be safe identifiers whatever the value validation
+      if (
+        "value" in clause &&
+        typeof clause.value === "string" &&
+        clause.value.includes(".") &&
+        !allowedFieldPattern.test(clause.value)
+      ) {
+        throw new ValidationError(
+          `Invalid column reference "${clause.value}" in join condition`,
+          { code: "INVALID_FIELD", path: joinPath(path, "value") }
+        );
+      }
+      return validateAndSanitizeWhereClause(clause, {
+        path,
         depth: 0,
         maxDepth: MAX_QUERY_DEPTH,
         maxConditions: MAX_CONDITIONS_PER_GROUP,
@@ -404,8 +667,9 @@ function validateJoinCondition(
         allowedFieldPattern: allowedFieldPattern,
         maxValueLength: context.maxValueLength,
         preventSqlKeywords: context.preventSqlKeywords,
-      })
-    ),
+        valueValidation: context.valueValidation,
+      });
+    }),
   };
 }
 
@@ -417,10 +681,11 @@ function validateAndSanitizeOrderBy(
     return undefined;
   }
 
-  return orderBy.map((order) => {
+  return orderBy.map((order, i) => {
     if (!allowedFieldPattern.test(order.field)) {
       throw new ValidationError(
-        `Invalid field name "${order.field}". Must contain only alphanumeric characters, underscores, and dots`
+        `Invalid field name "${order.field}". Must contain only alphanumeric characters, underscores, and dots`,
+        { code: "INVALID_FIELD", path: `orderBy[${i}].field` }
       );
     }
 
@@ -431,13 +696,108 @@ function validateAndSanitizeOrderBy(
   });
 }
 
+function validateAndSanitizeOnConflict(
+  allowedFieldPattern: RegExp,
+  onConflict?: OnConflictOptions
+): OnConflictOptions | undefined {
+  if (!onConflict) {
+    return undefined;
+  }
+
+  if (onConflict.action !== "merge" && onConflict.action !== "ignore") {
+    throw new ValidationError(
+      'onConflict action must be either "merge" or "ignore"',
+      { code: "INVALID_VALUE", path: "onConflict.action" }
+    );
+  }
+
+  const validateColumns = (columns: string[] | undefined, key: string) =>
+    columns?.map((column, i) => {
+      if (column === "*" || !allowedFieldPattern.test(column)) {
+        throw new ValidationError(
+          `Invalid onConflict ${key} column "${column}". Must contain only alphanumeric characters, underscores, and dots`,
+          { code: "INVALID_FIELD", path: `onConflict.${key}[${i}]` }
+        );
+      }
+      return column;
+    });
+
+  return {
+    action: onConflict.action,
+    target: validateColumns(onConflict.target, "target"),
+    update: validateColumns(onConflict.update, "update"),
+  };
+}
+
+function validateAndSanitizeCursor(
+  query: QueryOptions,
+  context: {
+    maxValueLength?: number;
+    preventSqlKeywords?: boolean;
+    valueValidation?: ValueValidation;
+  }
+): { after?: string; before?: string } {
+  const { after, before, orderBy = [], offset } = query;
+  const cursor = after ?? before;
+  if (cursor === undefined) {
+    return {};
+  }
+  const path = after !== undefined ? "after" : "before";
+
+  if (after !== undefined && before !== undefined) {
+    throw new ValidationError('Only one of "after" and "before" can be set', {
+      code: "INVALID_PAGINATION",
+      path: "before",
+    });
+  }
+  if (typeof cursor !== "string") {
+    throw new ValidationError("Cursor must be a string", {
+      code: "INVALID_CURSOR",
+      path,
+    });
+  }
+  if (orderBy.length === 0) {
+    throw new ValidationError("Cursor pagination requires orderBy", {
+      code: "INVALID_PAGINATION",
+      path,
+    });
+  }
+  if (offset !== undefined) {
+    throw new ValidationError(
+      "Cursor pagination cannot be combined with offset",
+      { code: "INVALID_PAGINATION", path: "offset" }
+    );
+  }
+
+  let values: any[];
+  try {
+    values = decodeCursor(cursor);
+  } catch (error) {
+    throw error instanceof ValidationError
+      ? new ValidationError(error.message, { code: error.code, path })
+      : error;
+  }
+  if (values.length !== orderBy.length) {
+    throw new ValidationError(
+      `Cursor must hold ${orderBy.length} values, one per orderBy field`,
+      { code: "INVALID_CURSOR", path }
+    );
+  }
+  values.forEach((value) => validateValue(value, context, path));
+
+  return { after, before };
+}
+
 function validateAndSanitizeLimit(limit?: number): number | undefined {
   if (limit === undefined) {
     return undefined;
   }
 
   if (!Number.isInteger(limit) || limit <= 0) {
-    throw new ValidationError("Limit must be a positive integer");
+    throw new ValidationError("Limit must be a positive integer", {
+      code: "INVALID_PAGINATION",
+      path: "limit",
+    });
   }
 
   return limit;
@@ -449,7 +809,10 @@ function validateAndSanitizeOffset(offset?: number): number | undefined {
   }
 
   if (!Number.isInteger(offset) || offset < 0) {
-    throw new ValidationError("Offset must be a non-negative integer");
+    throw new ValidationError("Offset must be a non-negative integer", {
+      code: "INVALID_PAGINATION",
+      path: "offset",
+    });
   }
 
   return offset;
@@ -461,15 +824,19 @@ function validateValue(
   context: {
     maxValueLength?: number;
     preventSqlKeywords?: boolean;
-  }
+    valueValidation?: ValueValidation;
+  },
+  path?: string
 ): void {
   if (value === null || value === undefined) {
     return;
   }
+  const invalid = (message: string) =>
+    new ValidationError(message, { code: "INVALID_VALUE", path });
 
   // Check value type
   if (typeof value === "object" && !(value instanceof Date)) {
-    throw new ValidationError("Complex objects are not allowed as values");
+    throw invalid("Complex objects are not allowed as values");
   }
 
   // Convert to string for validation
@@ -477,19 +844,22 @@ function validateValue(
 
   // Check length
   if (context.maxValueLength && strValue.length > context.maxValueLength) {
-    throw new ValidationError(
-      `Value exceeds maximum length of ${context.maxValueLength}`
-    );
+    throw invalid(`Value exceeds maximum length of ${context.maxValueLength}`);
+  }
+
+  // Values are bound as parameters, so their content can't change the SQL
+  if (context.valueValidation !== "legacy") {
+    return;
   }
 
   // Check for dangerous patterns
   if (DANGEROUS_PATTERNS.some((pattern) => pattern.test(strValue))) {
-    throw new ValidationError("Value contains dangerous patterns");
+    throw invalid("Value contains dangerous patterns");
   }
 
   // Check for SQL injection patterns
   if (!SAFE_VALUE_PATTERN.test(strValue)) {
-    throw new ValidationError("Value contains forbidden characters");
+    throw invalid("Value contains forbidden characters");
   }
 
   // Check for SQL keywords if enabled
@@ -501,7 +871,7 @@ function validateValue(
       lowerValue.includes("delete") ||
       lowerValue.includes("drop")
     ) {
-      throw new ValidationError("Value contains SQL keywords");
+      throw invalid("Value contains SQL keywords");
     }
   }
 }